@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Ingredient } from './types';
+
+export interface DetectedDuration {
+    // The matched words, e.g. "10 Minuten".
+    text: string;
+    seconds: number;
+}
+
+export interface CookTimer {
+    id: string;
+    label: string;
+    totalSeconds: number;
+    // Set while running; remaining time is derived from it so timers survive throttled intervals.
+    endsAt: number | null;
+    remainingMs: number;
+    finished: boolean;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+    'ein': 1, 'eine': 1, 'einen': 1, 'einer': 1, 'zwei': 2, 'drei': 3, 'vier': 4, 'fünf': 5,
+    'sechs': 6, 'sieben': 7, 'acht': 8, 'neun': 9, 'zehn': 10, 'fünfzehn': 15, 'zwanzig': 20,
+    'dreißig': 30, 'halbe': 0.5, 'viertel': 0.25, 'dreiviertel': 0.75,
+};
+
+const UNIT_SECONDS: [RegExp, number][] = [
+    [/^(?:sek(?:unden?)?|s)\.?$/, 1],
+    [/^(?:min(?:uten?)?|minütig)\.?$/, 60],
+    [/^(?:std|stunden?|h)\.?$/, 3600],
+];
+
+const NUMBER = `\\d+(?:[.,]\\d+)?|${Object.keys(NUMBER_WORDS).join('|')}`;
+// "10 Minuten", "5-7 Min.", "5 bis 7 Minuten", "eine halbe Stunde", "1,5 Std."
+const DURATION_PATTERN = new RegExp(
+    `(?<![\\wäöüß])(?:(${NUMBER})\\s*(?:[-–]|bis)\\s*)?(${NUMBER})(?:\\s+(halbe))?\\s*(sek(?:unden?)?|s|min(?:uten?)?|minütig|std|stunden?|h)\\.?(?![\\wäöüß])`,
+    'gi',
+);
+
+function parseNumber(raw: string): number {
+    const word = NUMBER_WORDS[raw.toLowerCase()];
+    return word ?? parseFloat(raw.replace(',', '.'));
+}
+
+/**
+ * Finds cooking times in a step. For ranges like "5-7 Minuten" the upper
+ * bound is used, since checking too late is easier to fix than too early.
+ */
+export function detectDurations(step: string): DetectedDuration[] {
+    const durations: DetectedDuration[] = [];
+    for (const match of step.matchAll(DURATION_PATTERN)) {
+        const [text, , upper, halbe, unit] = match;
+        const unitSeconds = UNIT_SECONDS.find(([pattern]) => pattern.test(unit.toLowerCase()))?.[1];
+        let amount = parseNumber(upper);
+        // "eine halbe Stunde"
+        if (halbe) amount *= 0.5;
+        if (!unitSeconds || !Number.isFinite(amount) || amount <= 0) continue;
+        durations.push({ text: text.trim(), seconds: Math.round(amount * unitSeconds) });
+    }
+    return durations;
+}
+
+function stem(word: string): string {
+    return word.replace(/(en|n|e|s)$/, '');
+}
+
+/** Ingredients mentioned in a step, matched on the significant words of their names. */
+export function findStepIngredients(step: string, ingredients: Ingredient[]): Ingredient[] {
+    const stepWords = step.toLowerCase().split(/[^a-zäöüß]+/).filter(Boolean).map(stem);
+    return ingredients.filter(ingredient => {
+        const nameWords = ingredient.name.toLowerCase().split(/[^a-zäöüß]+/).filter(w => w.length >= 3).map(stem);
+        // Compound words: "Nudelwasser" mentions "Nudeln", "Tomaten" matches "Cherrytomaten".
+        return nameWords.some(word => word.length >= 3 && stepWords.some(s => s.includes(word)));
+    });
+}
+
+export function createTimer(label: string, seconds: number, now = Date.now()): CookTimer {
+    return {
+        id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        totalSeconds: seconds,
+        endsAt: now + seconds * 1000,
+        remainingMs: seconds * 1000,
+        finished: false,
+    };
+}
+
+export function getRemainingMs(timer: CookTimer, now = Date.now()): number {
+    return timer.endsAt === null ? timer.remainingMs : Math.max(0, timer.endsAt - now);
+}
+
+export function pauseTimer(timer: CookTimer, now = Date.now()): CookTimer {
+    return { ...timer, endsAt: null, remainingMs: getRemainingMs(timer, now) };
+}
+
+export function resumeTimer(timer: CookTimer, now = Date.now()): CookTimer {
+    return { ...timer, endsAt: now + timer.remainingMs };
+}
+
+export function formatDuration(seconds: number): string {
+    const total = Math.ceil(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
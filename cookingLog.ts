@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Recipe } from './types';
+
+export interface CookingLogEntry {
+    id: string;
+    recipeId: string;
+    // ISO 8601 timestamp.
+    cookedAt: string;
+    // 1 to 5 stars.
+    rating: number;
+    notes: string;
+}
+
+export interface CookingStats {
+    timesCooked: number;
+    // Null until the recipe was rated.
+    averageRating: number | null;
+    lastCookedAt?: string;
+}
+
+export interface HistorySuggestions {
+    // Favourites that haven't been cooked for a while.
+    rediscover: Recipe[];
+    // Highly rated recipes to ask the AI for something similar.
+    inspiration: Recipe[];
+    // Saved but never cooked.
+    untried: Recipe[];
+}
+
+const COOKING_LOG_KEY = 'cookingLog';
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+// From this average on a recipe counts as a favourite.
+const FAVOURITE_RATING = 4;
+const REDISCOVER_AFTER_DAYS = 21;
+const MAX_SUGGESTIONS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidRating(rating: number): boolean {
+    return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+export function getCookingStats(log: CookingLogEntry[], recipeId: string): CookingStats {
+    const entries = log.filter(entry => entry.recipeId === recipeId);
+    if (entries.length === 0) {
+        return { timesCooked: 0, averageRating: null };
+    }
+    const rated = entries.filter(entry => isValidRating(entry.rating));
+    return {
+        timesCooked: entries.length,
+        averageRating: rated.length > 0 ? rated.reduce((sum, entry) => sum + entry.rating, 0) / rated.length : null,
+        lastCookedAt: entries.reduce((latest, entry) => entry.cookedAt > latest ? entry.cookedAt : latest, entries[0].cookedAt),
+    };
+}
+
+/** Newest first. */
+export function getRecipeLog(log: CookingLogEntry[], recipeId: string): CookingLogEntry[] {
+    return log
+        .filter(entry => entry.recipeId === recipeId)
+        .sort((a, b) => b.cookedAt.localeCompare(a.cookedAt));
+}
+
+export function formatRating(rating: number): string {
+    const stars = Math.round(rating);
+    return '★'.repeat(stars) + '☆'.repeat(MAX_RATING - stars);
+}
+
+/**
+ * Suggestions for the "Rezeptideen" dialog, built from what was actually
+ * cooked and how it was rated instead of a fixed list.
+ */
+export function suggestFromHistory(recipes: Recipe[], log: CookingLogEntry[], now = new Date()): HistorySuggestions {
+    const withStats = recipes
+        .filter(recipe => recipe.id)
+        .map(recipe => ({ recipe, stats: getCookingStats(log, recipe.id!) }));
+    const favourites = withStats
+        .filter(({ stats }) => (stats.averageRating ?? 0) >= FAVOURITE_RATING)
+        .sort((a, b) => b.stats.averageRating! - a.stats.averageRating! || b.stats.timesCooked - a.stats.timesCooked);
+    const rediscoverBefore = new Date(now.getTime() - REDISCOVER_AFTER_DAYS * DAY_MS).toISOString();
+
+    return {
+        rediscover: favourites
+            .filter(({ stats }) => stats.lastCookedAt! < rediscoverBefore)
+            // The longest forgotten first.
+            .sort((a, b) => a.stats.lastCookedAt!.localeCompare(b.stats.lastCookedAt!))
+            .slice(0, MAX_SUGGESTIONS)
+            .map(({ recipe }) => recipe),
+        inspiration: favourites.slice(0, MAX_SUGGESTIONS).map(({ recipe }) => recipe),
+        untried: withStats
+            .filter(({ stats }) => stats.timesCooked === 0)
+            .sort((a, b) => (b.recipe.createdAt ?? '').localeCompare(a.recipe.createdAt ?? ''))
+            .slice(0, MAX_SUGGESTIONS)
+            .map(({ recipe }) => recipe),
+    };
+}
+
+/** What goes into the prompt field when the user wants something like a favourite. */
+export function similarRecipeIdea(recipe: Recipe): string {
+    const tags = recipe.tags?.length ? ` (${recipe.tags.join(', ')})` : '';
+    return `Ein neues Gericht in der Art von „${recipe.recipeName}“${tags}, aber nicht dasselbe`;
+}
+
+// --- LocalStorage Functions ---
+export function getCookingLog(): CookingLogEntry[] {
+    const logJSON = localStorage.getItem(COOKING_LOG_KEY);
+    return logJSON ? JSON.parse(logJSON) : [];
+}
+
+export function saveCookingLog(log: CookingLogEntry[]) {
+    localStorage.setItem(COOKING_LOG_KEY, JSON.stringify(log));
+}
+
+// Entries of a deleted recipe could never be shown again.
+export function removeRecipeFromLog(recipeId: string) {
+    const log = getCookingLog();
+    const remaining = log.filter(entry => entry.recipeId !== recipeId);
+    if (remaining.length !== log.length) {
+        saveCookingLog(remaining);
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Ingredient } from './types';
+
+export type GenerationErrorKind = 'aborted' | 'timeout' | 'network' | 'rateLimit' | 'server' | 'invalidResponse' | 'unknown';
+
+export class GenerationError extends Error {
+    constructor(public kind: GenerationErrorKind, message: string, public cause?: unknown) {
+        super(message);
+        this.name = 'GenerationError';
+    }
+}
+
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    timeoutMs: number;
+    signal: AbortSignal;
+    onRetry?: (attempt: number, error: GenerationError) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS = {
+    retries: 2,
+    baseDelayMs: 1000,
+    timeoutMs: 60000,
+};
+
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['timeout', 'network', 'rateLimit', 'server'];
+
+function getStatusCode(error: unknown): number | null {
+    const message = error instanceof Error ? error.message : String(error);
+    // The SDK reports HTTP errors as "got status: 503 Service Unavailable. {...}"
+    // and errors inside a stream with the code in the JSON body.
+    const match = message.match(/got status: (\d{3})/) ?? message.match(/"code":\s*(\d{3})/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+export function classifyError(error: unknown, signal?: AbortSignal, timedOut = false): GenerationError {
+    if (error instanceof GenerationError) return error;
+    if (timedOut) {
+        return new GenerationError('timeout', 'Zeitüberschreitung bei der Anfrage.', error);
+    }
+    if (signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+        return new GenerationError('aborted', 'Die Anfrage wurde abgebrochen.', error);
+    }
+    const status = getStatusCode(error);
+    if (status === 429) {
+        return new GenerationError('rateLimit', 'Zu viele Anfragen.', error);
+    }
+    if (status !== null && status >= 500) {
+        return new GenerationError('server', `Serverfehler (${status}).`, error);
+    }
+    if (error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        return new GenerationError('network', 'Keine Verbindung zum Server.', error);
+    }
+    if (error instanceof SyntaxError) {
+        return new GenerationError('invalidResponse', 'Die Antwort war kein gültiges Rezept.', error);
+    }
+    return new GenerationError('unknown', error instanceof Error ? error.message : String(error), error);
+}
+
+/** A user-facing German message for each kind of failure. */
+export function describeGenerationError(error: GenerationError): string {
+    switch (error.kind) {
+        case 'aborted':
+            return 'Die Rezepterstellung wurde abgebrochen.';
+        case 'timeout':
+            return 'Die Rezepterstellung hat zu lange gedauert. Bitte versuche es noch einmal.';
+        case 'network':
+            return 'Keine Internetverbindung. Bitte prüfe deine Verbindung und versuche es erneut.';
+        case 'rateLimit':
+            return 'Gerade werden zu viele Rezepte erstellt. Bitte warte einen Moment und versuche es dann erneut.';
+        case 'server':
+            return 'Der KI-Dienst ist gerade nicht erreichbar. Bitte versuche es später erneut.';
+        case 'invalidResponse':
+            return 'Die KI hat kein gültiges Rezept geliefert. Bitte präzisiere deine Anfrage und versuche es erneut.';
+        default:
+            return 'Entschuldigung, bei der Erstellung des Rezepts ist ein Fehler aufgetreten. Bitte versuche es später erneut oder präzisiere deine Anfrage.';
+    }
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new GenerationError('aborted', 'Die Anfrage wurde abgebrochen.'));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+    });
+}
+
+/**
+ * Runs `attempt` with its own abort signal that fires on user cancel or after
+ * `timeoutMs`. Transient failures are retried with exponential backoff.
+ */
+export async function withRetry<T>(attempt: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+        const controller = new AbortController();
+        let timedOut = false;
+        const onAbort = () => controller.abort();
+        options.signal.addEventListener('abort', onAbort, { once: true });
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, options.timeoutMs);
+
+        try {
+            // Racing against the signal ends the attempt even if the request ignores the abort.
+            return await Promise.race([attempt(controller.signal), rejectOnAbort(controller.signal)]);
+        } catch (error) {
+            const classified = classifyError(error, options.signal, timedOut);
+            const canRetry = TRANSIENT_KINDS.includes(classified.kind) && attemptNumber < options.retries && !options.signal.aborted;
+            if (!canRetry) {
+                throw classified;
+            }
+            options.onRetry?.(attemptNumber + 1, classified);
+            // 1 s, 2 s, 4 s ... plus jitter so many clients don't retry in lockstep.
+            const delay = options.baseDelayMs * 2 ** attemptNumber + Math.random() * options.baseDelayMs / 2;
+            await wait(delay, options.signal);
+        } finally {
+            clearTimeout(timer);
+            options.signal.removeEventListener('abort', onAbort);
+        }
+    }
+}
+
+// --- Partial JSON ---
+export interface PartialRecipe {
+    recipeName?: string;
+    description?: string;
+    ingredients: Ingredient[];
+    instructions: string[];
+}
+
+function decodeJsonString(raw: string): string {
+    // Cut off a half-received escape sequence at the end of the chunk.
+    const safe = raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/\\$/, '');
+    try {
+        return JSON.parse(`"${safe}"`);
+    } catch {
+        return safe;
+    }
+}
+
+function readStringField(text: string, field: string): string | undefined {
+    const match = text.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+    return match ? decodeJsonString(match[1]) : undefined;
+}
+
+/** Returns the complete top-level items of the JSON array that starts after `"field": [`. */
+function readArrayItems(text: string, field: string): string[] {
+    const start = text.search(new RegExp(`"${field}"\\s*:\\s*\\[`));
+    if (start === -1) return [];
+    const items: string[] = [];
+    let i = text.indexOf('[', start) + 1;
+    let depth = 0;
+    let inString = false;
+    let itemStart = -1;
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') {
+                inString = false;
+                if (depth === 0) items.push(text.slice(itemStart, i + 1));
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+            if (depth === 0) itemStart = i;
+        } else if (char === '{' || char === '[') {
+            if (depth === 0) itemStart = i;
+            depth++;
+        } else if (char === '}' || char === ']') {
+            if (depth === 0) break; // end of the array itself
+            depth--;
+            if (depth === 0) items.push(text.slice(itemStart, i + 1));
+        }
+    }
+    return items;
+}
+
+/**
+ * Extracts what is already usable from an incomplete JSON recipe while it is
+ * being streamed: text fields as far as they arrived, and only complete list items.
+ */
+export function parsePartialRecipe(text: string): PartialRecipe {
+    const parseItem = <T>(item: string): T | null => {
+        try {
+            return JSON.parse(item);
+        } catch {
+            return null;
+        }
+    };
+    return {
+        recipeName: readStringField(text, 'recipeName'),
+        description: readStringField(text, 'description'),
+        ingredients: readArrayItems(text, 'ingredients').map(item => parseItem<Ingredient>(item)).filter((i): i is Ingredient => !!i && typeof i.name === 'string'),
+        instructions: readArrayItems(text, 'instructions').map(item => parseItem<string>(item)).filter((i): i is string => typeof i === 'string'),
+    };
+}
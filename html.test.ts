@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { html, render } from './html';
+
+const attack = '<img src=x onerror="alert(1)">';
+
+describe('html', () => {
+    it('escapes interpolated text', () => {
+        const element = document.createElement('div');
+
+        render(element, html`<p>${attack}</p>`);
+
+        expect(element.querySelector('img')).toBeNull();
+        expect(element.querySelector('p')!.textContent).toBe(attack);
+    });
+
+    it('escapes quotes in attributes', () => {
+        const element = document.createElement('div');
+
+        render(element, html`<input value="${'" autofocus onfocus="alert(1)'}" title='${"' onclick='alert(1)"}'>`);
+
+        const input = element.querySelector('input')!;
+        expect(input.getAttributeNames()).toEqual(['value', 'title']);
+        expect(input.value).toBe('" autofocus onfocus="alert(1)');
+    });
+
+    it('inserts nested markup and arrays as they are', () => {
+        const element = document.createElement('ul');
+
+        render(element, html`${['Nudeln', attack].map(name => html`<li>${name}</li>`)}`);
+
+        expect([...element.children].map(li => li.textContent)).toEqual(['Nudeln', attack]);
+    });
+
+    it('renders nothing for null, undefined and booleans', () => {
+        const element = document.createElement('div');
+
+        render(element, html`${null}${undefined}${false}${true}${0}`);
+
+        expect(element.innerHTML).toBe('0');
+    });
+});
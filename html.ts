@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Recipe names, ingredients and notes come from the AI, from imported files and
+// from other members of a class. Markup is built with `html`, which escapes
+// everything interpolated into it unless it is markup built by `html` itself.
+
+/** Markup that is safe to insert, because `html` built it. */
+export class SafeHtml {
+    constructor(readonly markup: string) {}
+}
+
+/** `null`, `undefined` and booleans render nothing, so `${condition && html`…`}` works. */
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | readonly HtmlValue[];
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderValue(value: HtmlValue): string {
+    if (value === null || value === undefined || typeof value === 'boolean') {
+        return '';
+    }
+    if (value instanceof SafeHtml) {
+        return value.markup;
+    }
+    if (Array.isArray(value)) {
+        return value.map(renderValue).join('');
+    }
+    return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template for markup: in html`<li>${name}</li>` the name is escaped,
+ * nested html`` results and arrays of them are inserted as they are.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    let markup = strings[0];
+    values.forEach((value, index) => {
+        markup += renderValue(value) + strings[index + 1];
+    });
+    return new SafeHtml(markup);
+}
+
+export function render(element: Element, content: SafeHtml) {
+    element.innerHTML = content.markup;
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The whole app runs on the page from index.html; without IndexedDB it keeps recipes in memory.
+const legacyRecipe = {
+    recipeName: 'Nudeln mit Tomatensoße',
+    description: 'Schnell und günstig',
+    servings: 2,
+    ingredients: ['250 g Nudeln', '400 g Tomaten'],
+    instructions: ['Nudeln kochen.', 'Soße kochen.'],
+};
+
+const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+const click = (id: string) => byId<HTMLButtonElement>(id).click();
+const cardTitle = () => document.querySelector('#recipe-display h2')?.textContent;
+const ingredientItems = () => [...document.querySelectorAll('#ingredients-list li')].map(li => li.textContent?.trim());
+
+// Waits for the list to show `name`, so a list from before the last change isn't used.
+async function openSavedRecipe(name: string) {
+    click('view-saved-btn');
+    await vi.waitFor(() => expect([...document.querySelectorAll('#saved-recipes-list h4')].map(h4 => h4.textContent)).toEqual([name]));
+    document.querySelector<HTMLButtonElement>('#saved-recipes-list .view-btn')!.click();
+}
+
+describe('recipe card editor', () => {
+    beforeAll(async () => {
+        const page = new DOMParser().parseFromString(readFileSync(path.resolve(__dirname, 'index.html'), 'utf-8'), 'text/html');
+        document.body.innerHTML = page.body.innerHTML;
+        localStorage.setItem('savedRecipes', JSON.stringify([legacyRecipe]));
+        vi.spyOn(window, 'alert').mockImplementation(() => {});
+        await import('./index');
+    });
+
+    it('restores the recipe when editing is cancelled', async () => {
+        await openSavedRecipe('Nudeln mit Tomatensoße');
+        click('edit-recipe-btn');
+        expect(byId('recipe-display').classList.contains('hidden')).toBe(true);
+        expect(byId('recipe-edit-form').classList.contains('hidden')).toBe(false);
+
+        byId<HTMLInputElement>('edit-recipe-name').value = 'Verworfen';
+        click('cancel-edit-btn');
+
+        expect(cardTitle()).toBe('Nudeln mit Tomatensoße');
+        expect(byId('recipe-edit-form').classList.contains('hidden')).toBe(true);
+        expect(byId<HTMLInputElement>('edit-recipe-name').value).toBe('Nudeln mit Tomatensoße');
+    });
+
+    it('saves the edited recipe', async () => {
+        await openSavedRecipe('Nudeln mit Tomatensoße');
+        click('edit-recipe-btn');
+
+        byId<HTMLInputElement>('edit-recipe-name').value = 'Nudeln mit Ofengemüse';
+        byId<HTMLTextAreaElement>('edit-recipe-ingredients').value = '250 g Nudeln\n1 Zucchini';
+        click('save-edit-btn');
+
+        await vi.waitFor(() => expect(cardTitle()).toBe('Nudeln mit Ofengemüse'));
+        await openSavedRecipe('Nudeln mit Ofengemüse');
+        expect(cardTitle()).toBe('Nudeln mit Ofengemüse');
+        expect(ingredientItems()).toEqual(['250 g Nudeln', '1 Zucchini']);
+        // The recipe had no difficulty and the editor doesn't invent one.
+        expect(document.querySelector('#recipe-display')?.textContent).not.toContain('📊');
+    });
+});
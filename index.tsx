@@ -2,24 +2,78 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Type } from "@google/genai";
-
-// --- Type Definition ---
-interface Recipe {
-    recipeName: string;
-    description: string;
-    ingredients: string[];
-    instructions: string[];
-    imageUrl?: string;
-}
+/// <reference types="vite/client" />
+import type { Ingredient, Recipe } from './types';
+import { html, render, type SafeHtml } from './html';
+import { createRecipeEditor } from './recipeEditor';
+import { MAX_HISTORY_TURNS, createRecipeGenerator, getClientId, type ChatTurn, type GenerateRequest, type InlineImage } from './recipeGenerator';
+import { formatIngredient, normalizeRecipe, parseIngredient } from './ingredients';
+import {
+    MEALS, WEEKDAYS, applyAssignments, clearUnlockedSlots, createEmptyPlan, findSlot, getMealPlan,
+    getOpenSlots, migratePlanToRecipeIds, removeRecipeFromPlan, saveMealPlan, type MealPlan, type PlanAssignment,
+} from './mealPlan';
+import {
+    addRecipesToList, createShoppingList, exportAsMarkdown, exportAsText, formatShoppingItem, getShoppingList,
+    groupBySection, saveShoppingList,
+} from './shoppingList';
+import { checkBudget, formatEuro, getDisplayedCost, getPriceTable, resetPriceTable, savePriceTable } from './prices';
+import {
+    MONTH_NAMES, PRODUCE_CATEGORIES, checkSeasonality, formatSeason, getCurrentMonth, getMonthName,
+    getSeasonalCalendar, getSeasonalProduce, resetSeasonalCalendar, saveSeasonalCalendar, type ProduceCategory,
+    type SeasonEntry, type SeasonalIssue,
+} from './seasons';
+import { addToPantry, checkPantry, consumeIngredients, getPantry, isBasicStaple, savePantry } from './pantry';
+import { validateRecipe } from './recipeValidation';
+import {
+    formatRating, getCookingLog, getCookingStats, getRecipeLog, isValidRating, removeRecipeFromLog, saveCookingLog,
+    similarRecipeIdea, suggestFromHistory, type CookingLogEntry,
+} from './cookingLog';
+import { diffRecipes, hasChanges, type DiffLine } from './recipeDiff';
+import {
+    DEFAULT_RETRY_OPTIONS, GenerationError, classifyError, describeGenerationError, parsePartialRecipe, withRetry,
+    type PartialRecipe,
+} from './generation';
+import {
+    EU_ALLERGENS, checkAllergenExclusions, formatNutrition, getAllergen, getAllergenExclusions,
+    getRecipeAllergens, saveAllergenExclusions, type AllergenId,
+} from './nutrition';
+import {
+    createTimer, detectDurations, findStepIngredients, formatDuration, getRemainingMs, pauseTimer, resumeTimer,
+    type CookTimer,
+} from './cookMode';
+import {
+    createId, createIndexedDbBackend, createMemoryBackend, createRecipeRepository,
+    type RecipeVersion, type VersionInfo, type VersionSource,
+} from './recipeRepository';
+import {
+    WorkspaceError, applyGroupRecipe, createLink, createWorkspaceClient, getRecipeLinks, getWorkspaceSession, planSync, saveRecipeLinks,
+    saveWorkspaceSession, sortGroupRecipes, type ConflictChoice, type GroupRecipe, type JoinResult, type RecipeLink,
+    type SyncAction, type WorkspaceSession, type WorkspaceSnapshot,
+} from './workspace';
+import {
+    exportRecipes, findUniqueName, parseRecipeImport, type ConflictResolution, type ExportFormat, type ImportEntry,
+} from './recipeExchange';
+import {
+    DEFAULT_RECIPE_QUERY, collectTags, filterRecipes,
+    type RecipeQuery, type RecipeSortOrder,
+} from './recipeSearch';
 
 // --- DOM Element References ---
 const recipeForm = document.getElementById('recipe-form') as HTMLFormElement;
 const promptInput = document.getElementById('prompt-input') as HTMLInputElement;
 const difficultySelect = document.getElementById('difficulty-select') as HTMLSelectElement;
 const wishesInput = document.getElementById('wishes-input') as HTMLTextAreaElement;
+const budgetInput = document.getElementById('budget-input') as HTMLInputElement;
+const allergenExclusionsContainer = document.getElementById('allergen-exclusions') as HTMLDivElement;
+const allergenExclusionsSummary = document.getElementById('allergen-exclusions-summary') as HTMLElement;
+const usePantryCheckbox = document.getElementById('use-pantry-checkbox') as HTMLInputElement;
+const preferSeasonalCheckbox = document.getElementById('prefer-seasonal-checkbox') as HTMLInputElement;
+const suggestionCountSelect = document.getElementById('suggestion-count-select') as HTMLSelectElement;
 const generateButton = document.getElementById('generate-button') as HTMLButtonElement;
+const offlineBanner = document.getElementById('offline-banner') as HTMLDivElement;
 const loadingIndicator = document.getElementById('loading-indicator') as HTMLDivElement;
+const loadingText = document.getElementById('loading-text') as HTMLSpanElement;
+const cancelGenerationBtn = document.getElementById('cancel-generation-btn') as HTMLButtonElement;
 const recipeOutput = document.getElementById('recipe-output') as HTMLDivElement;
 const viewSavedBtn = document.getElementById('view-saved-btn') as HTMLButtonElement;
 const savedCountBadge = document.getElementById('saved-count-badge') as HTMLSpanElement;
@@ -35,127 +89,329 @@ const browseRecipesList = document.getElementById('browse-recipes-list') as HTML
 const savedRecipesModal = document.getElementById('saved-recipes-modal') as HTMLDivElement;
 const closeModalBtn = document.getElementById('close-modal-btn') as HTMLButtonElement;
 const savedRecipesList = document.getElementById('saved-recipes-list') as HTMLDivElement;
+const savedSearchInput = document.getElementById('saved-search-input') as HTMLInputElement;
+const savedDifficultyFilter = document.getElementById('saved-difficulty-filter') as HTMLSelectElement;
+const savedTagFilter = document.getElementById('saved-tag-filter') as HTMLSelectElement;
+const savedSortSelect = document.getElementById('saved-sort-select') as HTMLSelectElement;
+const createShoppingListBtn = document.getElementById('create-shopping-list-btn') as HTMLButtonElement;
+const exportAllRecipesBtn = document.getElementById('export-all-recipes-btn') as HTMLButtonElement;
+const importRecipesBtn = document.getElementById('import-recipes-btn') as HTMLButtonElement;
+
+// Cook Mode
+const cookMode = document.getElementById('cook-mode') as HTMLDivElement;
+const cookModeTitle = document.getElementById('cook-mode-title') as HTMLHeadingElement;
+const cookModeProgress = document.getElementById('cook-mode-progress') as HTMLParagraphElement;
+const closeCookModeBtn = document.getElementById('close-cook-mode-btn') as HTMLButtonElement;
+const cookModeIngredients = document.getElementById('cook-mode-ingredients') as HTMLUListElement;
+const cookModeStepText = document.getElementById('cook-mode-step-text') as HTMLParagraphElement;
+const cookModeStepTimers = document.getElementById('cook-mode-step-timers') as HTMLDivElement;
+const cookModeTimers = document.getElementById('cook-mode-timers') as HTMLUListElement;
+const cookModePrevBtn = document.getElementById('cook-mode-prev-btn') as HTMLButtonElement;
+const cookModeNextBtn = document.getElementById('cook-mode-next-btn') as HTMLButtonElement;
+
+// Export Modal
+const exportModal = document.getElementById('export-modal') as HTMLDivElement;
+const closeExportModalBtn = document.getElementById('close-export-modal-btn') as HTMLButtonElement;
+const exportSummary = document.getElementById('export-summary') as HTMLParagraphElement;
+const exportFormatSelect = document.getElementById('export-format-select') as HTMLSelectElement;
+const exportImagesCheckbox = document.getElementById('export-images-checkbox') as HTMLInputElement;
+const downloadExportBtn = document.getElementById('download-export-btn') as HTMLButtonElement;
+
+// Import Modal
+const importModal = document.getElementById('import-modal') as HTMLDivElement;
+const closeImportModalBtn = document.getElementById('close-import-modal-btn') as HTMLButtonElement;
+const importFileInput = document.getElementById('import-file-input') as HTMLInputElement;
+const importTextInput = document.getElementById('import-text-input') as HTMLTextAreaElement;
+const checkImportBtn = document.getElementById('check-import-btn') as HTMLButtonElement;
+const importPreview = document.getElementById('import-preview') as HTMLDivElement;
+const confirmImportBtn = document.getElementById('confirm-import-btn') as HTMLButtonElement;
+
+// Meal Planner Modal
+const mealPlannerBtn = document.getElementById('meal-planner-btn') as HTMLButtonElement;
+const mealPlannerModal = document.getElementById('meal-planner-modal') as HTMLDivElement;
+const closePlannerModalBtn = document.getElementById('close-planner-modal-btn') as HTMLButtonElement;
+const mealPlannerGrid = document.getElementById('meal-planner-grid') as HTMLDivElement;
+const fillPlanBtn = document.getElementById('fill-plan-btn') as HTMLButtonElement;
+const replanWeekBtn = document.getElementById('replan-week-btn') as HTMLButtonElement;
+const planShoppingListBtn = document.getElementById('plan-shopping-list-btn') as HTMLButtonElement;
+const clearPlanBtn = document.getElementById('clear-plan-btn') as HTMLButtonElement;
+const plannerStatus = document.getElementById('planner-status') as HTMLDivElement;
+
+// Shopping List Modal
+const shoppingListBtn = document.getElementById('shopping-list-btn') as HTMLButtonElement;
+const shoppingListModal = document.getElementById('shopping-list-modal') as HTMLDivElement;
+const closeShoppingModalBtn = document.getElementById('close-shopping-modal-btn') as HTMLButtonElement;
+const shoppingListContent = document.getElementById('shopping-list-content') as HTMLDivElement;
+const exportShoppingTextBtn = document.getElementById('export-shopping-text-btn') as HTMLButtonElement;
+const exportShoppingMarkdownBtn = document.getElementById('export-shopping-markdown-btn') as HTMLButtonElement;
+const removeCheckedItemsBtn = document.getElementById('remove-checked-items-btn') as HTMLButtonElement;
+const clearShoppingListBtn = document.getElementById('clear-shopping-list-btn') as HTMLButtonElement;
+
+// Price Table Modal
+const priceTableBtn = document.getElementById('price-table-btn') as HTMLButtonElement;
+const priceTableModal = document.getElementById('price-table-modal') as HTMLDivElement;
+const closePriceModalBtn = document.getElementById('close-price-modal-btn') as HTMLButtonElement;
+const priceTableList = document.getElementById('price-table-list') as HTMLDivElement;
+const addPriceEntryBtn = document.getElementById('add-price-entry-btn') as HTMLButtonElement;
+const resetPriceTableBtn = document.getElementById('reset-price-table-btn') as HTMLButtonElement;
+
+// Season Calendar Modal
+const seasonCalendarBtn = document.getElementById('season-calendar-btn') as HTMLButtonElement;
+const seasonCalendarModal = document.getElementById('season-calendar-modal') as HTMLDivElement;
+const closeSeasonModalBtn = document.getElementById('close-season-modal-btn') as HTMLButtonElement;
+const seasonRegionInput = document.getElementById('season-region-input') as HTMLInputElement;
+const seasonCalendarList = document.getElementById('season-calendar-list') as HTMLDivElement;
+const addSeasonEntryBtn = document.getElementById('add-season-entry-btn') as HTMLButtonElement;
+const resetSeasonCalendarBtn = document.getElementById('reset-season-calendar-btn') as HTMLButtonElement;
+
+// Pantry Modal
+const pantryBtn = document.getElementById('pantry-btn') as HTMLButtonElement;
+const pantryModal = document.getElementById('pantry-modal') as HTMLDivElement;
+const closePantryModalBtn = document.getElementById('close-pantry-modal-btn') as HTMLButtonElement;
+const addPantryItemForm = document.getElementById('add-pantry-item-form') as HTMLFormElement;
+const pantryItemInput = document.getElementById('pantry-item-input') as HTMLInputElement;
+const pantryList = document.getElementById('pantry-list') as HTMLDivElement;
+
+// Cooked Modal
+const cookedModal = document.getElementById('cooked-modal') as HTMLDivElement;
+const closeCookedModalBtn = document.getElementById('close-cooked-modal-btn') as HTMLButtonElement;
+const cookedRecipeName = document.getElementById('cooked-recipe-name') as HTMLParagraphElement;
+const cookedForm = document.getElementById('cooked-form') as HTMLFormElement;
+const cookedDateInput = document.getElementById('cooked-date') as HTMLInputElement;
+const cookedNotesTextarea = document.getElementById('cooked-notes') as HTMLTextAreaElement;
+const cookedPantryOption = document.getElementById('cooked-pantry-option') as HTMLLabelElement;
+const cookedUsePantryCheckbox = document.getElementById('cooked-use-pantry') as HTMLInputElement;
 
 // Add Recipe Modal
 const addRecipeBtn = document.getElementById('add-recipe-btn') as HTMLButtonElement;
 const addRecipeModal = document.getElementById('add-recipe-modal') as HTMLDivElement;
 const closeAddModalBtn = document.getElementById('close-add-modal-btn') as HTMLButtonElement;
 const addRecipeForm = document.getElementById('add-recipe-form') as HTMLFormElement;
-const addRecipeNameInput = document.getElementById('add-recipe-name') as HTMLInputElement;
-const addRecipeDescriptionTextarea = document.getElementById('add-recipe-description') as HTMLTextAreaElement;
-const addRecipeIngredientsTextarea = document.getElementById('add-recipe-ingredients') as HTMLTextAreaElement;
-const addRecipeInstructionsTextarea = document.getElementById('add-recipe-instructions') as HTMLTextAreaElement;
-const addRecipeImageInput = document.getElementById('add-recipe-image') as HTMLInputElement;
+const addRecipeEditor = createRecipeEditor(
+    document.getElementById('add-recipe-editor') as HTMLDivElement,
+    { idPrefix: 'add-recipe', imageLabel: 'Foto hinzufügen (optional)' },
+);
+const addRecipeImportDetails = document.getElementById('add-recipe-import') as HTMLDetailsElement;
+const addRecipeImportText = document.getElementById('add-recipe-import-text') as HTMLTextAreaElement;
+const addRecipeImportImage = document.getElementById('add-recipe-import-image') as HTMLInputElement;
+const addRecipeImportBtn = document.getElementById('add-recipe-import-btn') as HTMLButtonElement;
+const addRecipeImportStatus = document.getElementById('add-recipe-import-status') as HTMLParagraphElement;
+
+// Class Workspace Modal
+const workspaceBtn = document.getElementById('workspace-btn') as HTMLButtonElement;
+const workspaceModal = document.getElementById('workspace-modal') as HTMLDivElement;
+const closeWorkspaceModalBtn = document.getElementById('close-workspace-modal-btn') as HTMLButtonElement;
+const workspaceJoin = document.getElementById('workspace-join') as HTMLDivElement;
+const joinWorkspaceForm = document.getElementById('join-workspace-form') as HTMLFormElement;
+const joinCodeInput = document.getElementById('join-code-input') as HTMLInputElement;
+const joinNameInput = document.getElementById('join-name-input') as HTMLInputElement;
+const createWorkspaceForm = document.getElementById('create-workspace-form') as HTMLFormElement;
+const groupNameInput = document.getElementById('group-name-input') as HTMLInputElement;
+const trainerNameInput = document.getElementById('trainer-name-input') as HTMLInputElement;
+const workspaceGroup = document.getElementById('workspace-group') as HTMLDivElement;
+const workspaceInfo = document.getElementById('workspace-info') as HTMLDivElement;
+const syncWorkspaceBtn = document.getElementById('sync-workspace-btn') as HTMLButtonElement;
+const leaveWorkspaceBtn = document.getElementById('leave-workspace-btn') as HTMLButtonElement;
+const workspaceStatus = document.getElementById('workspace-status') as HTMLParagraphElement;
+const workspaceConflictsList = document.getElementById('workspace-conflicts') as HTMLDivElement;
+const workspaceRecipesList = document.getElementById('workspace-recipes') as HTMLDivElement;
 
 
 // --- State ---
 let currentRecipe: Recipe | null = null;
+let currentSuggestions: Recipe[] = [];
+let currentBudget: number | null = null;
+let currentAllergenExclusions: AllergenId[] = [];
+let generationController: AbortController | null = null;
 
-// --- Sample Data ---
-const sampleRecipeIdeas = [
-    "Schnelle Tomaten-Mozzarella-Nudeln",
-    "Hähnchen-Curry mit Reis",
-    "Vegetarische Linsen-Bolognese",
-    "Einfacher Grießbrei mit Früchten",
-    "Kartoffel-Lauch-Suppe",
-    "Wraps mit Hähnchen und Gemüse",
-    "Pfannkuchen mit Apfelmus",
-    "Thunfischsalat-Sandwich",
-    "One-Pot-Pasta mit Spinat und Feta",
-    "Gebratener Reis mit Ei und Gemüse"
-];
-
-// --- Gemini AI Setup ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const recipeSchema = {
-  type: Type.OBJECT,
-  properties: {
-    recipeName: {
-      type: Type.STRING,
-      description: "Der Name des Rezepts."
-    },
-    description: {
-        type: Type.STRING,
-        description: "Eine kurze, ansprechende Beschreibung des Gerichts."
-    },
-    ingredients: {
-      type: Type.ARRAY,
-      description: "Eine Liste der Zutaten, die für das Rezept benötigt werden.",
-      items: { type: Type.STRING }
-    },
-    instructions: {
-      type: Type.ARRAY,
-      description: "Eine schrittweise Anleitung zur Zubereitung des Gerichts.",
-      items: { type: Type.STRING }
-    },
-  },
-  required: ["recipeName", "description", "ingredients", "instructions"],
-};
+// Revisions of the recipe on the card while it is refined through the chat.
+// `history` is dropped on undo/redo so the next message starts from the shown revision.
+interface RefinementSession {
+    history: ChatTurn[] | null;
+    revisions: Recipe[];
+    index: number;
+}
+let refinementSession: RefinementSession | null = null;
+const selectedRecipeIds = new Set<string>();
+let savedRecipesQuery: RecipeQuery = { ...DEFAULT_RECIPE_QUERY };
+let exportTarget: Recipe[] = [];
+
+// Recipes read from import files, waiting for the user to resolve name conflicts.
+interface PendingImport {
+    entry: ImportEntry;
+    existing?: Recipe;
+}
+let pendingImports: PendingImport[] = [];
+
+// Whether the add form was filled from a photo or text, for the recipe's history.
+let addRecipeSource: VersionSource = 'manual';
+let addRecipeImportController: AbortController | null = null;
+
+// Cook mode shows one step at a time; `factor` scales the ingredients to the chosen servings.
+interface CookModeSession {
+    recipe: Recipe;
+    factor: number;
+    step: number;
+}
+let cookModeSession: CookModeSession | null = null;
+// The recipe the "Gekocht" dialog is open for; `factor` is used for the pantry.
+let cookedTarget: { recipe: Recipe; factor: number } | null = null;
+let cookTimers: CookTimer[] = [];
+let cookTimerInterval: number | null = null;
+let wakeLock: WakeLockSentinel | null = null;
+let audioContext: AudioContext | null = null;
+let cookModeTouchStartX: number | null = null;
+
+// The class this browser belongs to; the snapshot is the group as of the last sync.
+type SyncConflict = Extract<SyncAction, { type: 'conflict' }>;
+let workspaceSession: WorkspaceSession | null = getWorkspaceSession();
+let workspaceSnapshot: WorkspaceSnapshot | null = null;
+let workspaceConflicts: SyncConflict[] = [];
+let isSyncingWorkspace = false;
+const expandedGroupComments = new Set<string>();
+
+// --- Recipe Generator Setup ---
+// Which generator is used is decided at build time, see vite.config.ts.
+const recipeGenerator = createRecipeGenerator({
+    kind: process.env.RECIPE_GENERATOR,
+    apiKey: process.env.API_KEY,
+    clientId: getClientId(),
+});
 
 // --- Helper Functions ---
-function readFileAsDataURL(file: File): Promise<string> {
+function readBlobAsDataURL(blob: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = () => resolve(reader.result as string);
         reader.onerror = reject;
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(blob);
+    });
+}
+
+function downloadTextFile(filename: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+
+// --- Offline Support ---
+const OFFLINE_MESSAGE = 'Du bist offline. Die KI ist erst wieder verfügbar, wenn du mit dem Internet verbunden bist.';
+
+function registerServiceWorker() {
+    // In development Vite serves modules on the fly; caching them would only get in the way.
+    if (!('serviceWorker' in navigator) || import.meta.env.DEV) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .catch(error => console.error("Fehler beim Registrieren des Service Workers:", error));
     });
 }
 
+/** Everything else is local; only the Gemini features need a connection. */
+function updateOnlineState() {
+    const offline = !navigator.onLine;
+    document.body.classList.toggle('offline', offline);
+    offlineBanner.classList.toggle('hidden', !offline);
+    generateButton.disabled = offline || generationController !== null;
+    generateButton.textContent = offline ? 'Offline – Rezeptgenerierung nicht verfügbar' : 'Rezept generieren';
+}
 
-// --- LocalStorage Functions ---
-function getSavedRecipes(): Recipe[] {
-    const recipesJSON = localStorage.getItem('savedRecipes');
-    return recipesJSON ? JSON.parse(recipesJSON) : [];
+function ensureOnline(): boolean {
+    if (navigator.onLine) return true;
+    alert(OFFLINE_MESSAGE);
+    return false;
 }
 
-function saveRecipeToStorage(recipe: Recipe) {
-    const recipes = getSavedRecipes();
-    if (!recipes.some(r => r.recipeName.toLowerCase() === recipe.recipeName.toLowerCase())) {
-        recipes.push(recipe);
-        localStorage.setItem('savedRecipes', JSON.stringify(recipes));
-        updateSavedCount();
-    } else {
-        // Optional: Handle case where recipe name already exists
-        alert("Ein Rezept mit diesem Namen existiert bereits.");
+// --- Storage Functions ---
+const recipeRepository = createRecipeRepository(
+    typeof indexedDB !== 'undefined' ? createIndexedDbBackend() : createMemoryBackend(),
+    { legacyStorage: localStorage },
+);
+
+function getSavedRecipes(): Promise<Recipe[]> {
+    return recipeRepository.getSavedRecipes();
+}
+
+function describeStorageError(error: unknown): string {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return 'Der Speicher deines Browsers ist voll. Lösche alte Rezepte oder Bilder und versuche es erneut.';
     }
+    return 'Das Rezept konnte nicht gespeichert werden. Bitte versuche es erneut.';
 }
 
-function updateRecipeInStorage(originalRecipeName: string, updatedRecipe: Recipe) {
-    let recipes = getSavedRecipes();
-    const recipeIndex = recipes.findIndex(r => r.recipeName.toLowerCase() === originalRecipeName.toLowerCase());
-    if (recipeIndex > -1) {
-        recipes[recipeIndex] = updatedRecipe;
-        localStorage.setItem('savedRecipes', JSON.stringify(recipes));
-        updateSavedCount();
-        renderSavedRecipes();
+/** Saves a new recipe and returns it with its id, or null if it wasn't saved. */
+async function saveRecipeToStorage(recipe: Recipe, info: VersionInfo): Promise<Recipe | null> {
+    try {
+        let recipeToSave = recipe;
+        if (await recipeRepository.findRecipeByName(recipe.recipeName)) {
+            const names = (await getSavedRecipes()).map(r => r.recipeName);
+            const uniqueName = findUniqueName(recipe.recipeName, names);
+            if (!confirm(`Ein Rezept mit dem Namen "${recipe.recipeName}" existiert bereits. Als "${uniqueName}" speichern?`)) {
+                return null;
+            }
+            recipeToSave = { ...recipe, recipeName: uniqueName };
+        }
+        const saved = await recipeRepository.saveRecipe(recipeToSave, info);
+        await updateSavedCount();
+        return saved;
+    } catch (error) {
+        console.error("Fehler beim Speichern des Rezepts:", error);
+        alert(describeStorageError(error));
+        return null;
     }
 }
 
+async function updateRecipeInStorage(id: string, updatedRecipe: Recipe, info: VersionInfo): Promise<Recipe | null> {
+    try {
+        const saved = await recipeRepository.updateRecipe(id, updatedRecipe, info);
+        await updateSavedCount();
+        await renderSavedRecipes();
+        // Edits of a shared recipe go to the class right away when possible.
+        if (getRecipeLinks().some(l => l.recipeId === id)) {
+            syncWorkspace();
+        }
+        return saved;
+    } catch (error) {
+        console.error("Fehler beim Aktualisieren des Rezepts:", error);
+        alert(describeStorageError(error));
+        return null;
+    }
+}
 
-function removeRecipeFromStorage(recipeName: string) {
-    let recipes = getSavedRecipes();
-    recipes = recipes.filter(r => r.recipeName !== recipeName);
-    localStorage.setItem('savedRecipes', JSON.stringify(recipes));
-    updateSavedCount();
-    renderSavedRecipes();
+async function removeRecipeFromStorage(id: string) {
+    try {
+        await recipeRepository.removeRecipe(id);
+    } catch (error) {
+        console.error("Fehler beim Löschen des Rezepts:", error);
+        alert('Das Rezept konnte nicht gelöscht werden.');
+        return;
+    }
+    removeRecipeFromPlan(id);
+    removeRecipeFromLog(id);
+    await updateSavedCount();
+    await renderSavedRecipes();
 }
 
-function isRecipeSaved(recipeName: string): boolean {
-    const recipes = getSavedRecipes();
-    return recipes.some(r => r.recipeName.toLowerCase() === recipeName.toLowerCase());
+async function isRecipeSaved(recipe: Recipe): Promise<boolean> {
+    if (recipe.id) {
+        return !!(await recipeRepository.getRecipe(recipe.id));
+    }
+    return !!(await recipeRepository.findRecipeByName(recipe.recipeName));
 }
 
 
 // --- UI Update Functions ---
 function setLoading(isLoading: boolean) {
-    generateButton.disabled = isLoading;
+    generateButton.disabled = isLoading || !navigator.onLine;
     const saveEditBtn = document.getElementById('save-edit-btn') as HTMLButtonElement | null;
     if (saveEditBtn) {
         saveEditBtn.disabled = isLoading;
     }
     loadingIndicator.classList.toggle('hidden', !isLoading);
+    loadingText.textContent = 'Kocht ein leckeres Rezept für dich...';
     if (isLoading) {
         recipeOutput.style.opacity = '0.5';
     } else {
@@ -166,86 +422,175 @@ function setLoading(isLoading: boolean) {
 function renderRecipe(recipe: Recipe | null) {
     if (!recipe) {
         recipeOutput.innerHTML = '';
+        refinementSession = null;
         return;
     }
 
-    const originalRecipeForUpdate = { ...recipe };
+    if (!refinementSession || refinementSession.revisions[refinementSession.index] !== recipe) {
+        refinementSession = { history: null, revisions: [recipe], index: 0 };
+    }
+
     currentRecipe = recipe;
-    const isSaved = isRecipeSaved(recipe.recipeName);
+    const displayedCost = getDisplayedCost(recipe);
+    const facts = formatRecipeFacts(recipe);
+    const month = getCurrentMonth();
+    const seasonalIssues = checkSeasonality(recipe, getSeasonalCalendar(), month);
+    const outOfSeason = seasonalIssues.map(issue => issue.ingredient);
 
-    recipeOutput.innerHTML = `
+    render(recipeOutput, html`
+        ${currentSuggestions.length > 0 && html`<button type="button" id="back-to-suggestions-btn" class="back-link">← Zurück zu den Vorschlägen</button>`}
         <div class="recipe-card">
-            ${recipe.imageUrl ? `<img src="${recipe.imageUrl}" alt="${recipe.recipeName}" class="recipe-image">` : ''}
-             <div id="recipe-display">
+            ${recipe.imageUrl && html`<img src="${recipe.imageUrl}" alt="${recipe.recipeName}" class="recipe-image">`}
+            <div id="recipe-display">
                 <h2>${recipe.recipeName}</h2>
                 <p class="description">${recipe.description}</p>
+                ${facts && html`<p class="recipe-meta">${facts}</p>`}
+                ${renderTagList(recipe.tags)}
+                <p id="recipe-cost" class="recipe-meta"></p>
+                ${recipe.nutrition && html`<p class="recipe-meta">Pro Portion: ${formatNutrition(recipe.nutrition)}</p>`}
+                ${renderAllergenBadges(recipe)}
                 <div class="recipe-details">
                     <div class="ingredients">
                         <h3>Zutaten</h3>
-                        <ul>
-                            ${recipe.ingredients.map(i => `<li>${i}</li>`).join('')}
+                        <div class="servings-control">
+                            <button type="button" id="servings-decrease-btn" aria-label="Weniger Portionen">−</button>
+                            <input type="number" id="servings-input" min="1" max="50" value="${recipe.servings}" aria-label="Portionen">
+                            <button type="button" id="servings-increase-btn" aria-label="Mehr Portionen">+</button>
+                            <span>Portionen</span>
+                        </div>
+                        <ul id="ingredients-list">
+                            ${renderIngredientItems(recipe.ingredients, 1, outOfSeason)}
                         </ul>
                     </div>
                     <div class="instructions">
                         <h3>Anleitung</h3>
                         <ol>
-                            ${recipe.instructions.map(i => `<li>${i}</li>`).join('')}
+                            ${recipe.instructions.map(i => html`<li>${i}</li>`)}
                         </ol>
                     </div>
                 </div>
+                ${renderSeasonCheck(seasonalIssues, month)}
+                <div id="pantry-check" class="pantry-check hidden"></div>
+                ${renderCookingLog(recipe)}
             </div>
 
-            <div id="recipe-edit-form" class="hidden">
-                 <div class="form-group">
-                    <label for="edit-recipe-name">Rezeptname</label>
-                    <input type="text" id="edit-recipe-name" value="${recipe.recipeName.replace(/"/g, '&quot;')}">
-                </div>
-                 <div class="form-group">
-                    <label for="edit-recipe-description">Beschreibung</label>
-                    <textarea id="edit-recipe-description" rows="3">${recipe.description}</textarea>
-                </div>
-                 <div class="form-group">
-                    <label for="edit-recipe-ingredients">Zutaten (eine pro Zeile)</label>
-                    <textarea id="edit-recipe-ingredients" rows="5">${recipe.ingredients.join('\n')}</textarea>
-                </div>
-                 <div class="form-group">
-                    <label for="edit-recipe-instructions">Anleitung (ein Schritt pro Zeile)</label>
-                    <textarea id="edit-recipe-instructions" rows="7">${recipe.instructions.join('\n')}</textarea>
-                </div>
-                 <div class="form-group">
-                    <label for="edit-recipe-image">Foto ändern (optional)</label>
-                    <input type="file" id="edit-recipe-image" accept="image/*">
-                </div>
-            </div>
+            <div id="recipe-edit-form" class="hidden"></div>
 
             <div class="recipe-card-actions">
-                <button id="save-recipe-btn" ${isSaved ? 'disabled' : ''}>
-                    ${isSaved ? 'Gespeichert' : 'Rezept speichern'}
-                </button>
+                <button id="save-recipe-btn" disabled>Rezept speichern</button>
+                <button id="cook-mode-btn">Kochmodus</button>
+                <button id="cook-recipe-btn">Gekocht</button>
                 <button id="edit-recipe-btn">Rezept bearbeiten</button>
                 <button id="share-recipe-btn" class="secondary-btn">Rezept teilen</button>
+                <button id="export-recipe-btn" class="secondary-btn">Exportieren</button>
+                <button id="history-btn" class="secondary-btn ${recipe.id ? '' : 'hidden'}">Verlauf</button>
                 <button id="save-edit-btn" class="hidden">Änderungen speichern</button>
                 <button id="cancel-edit-btn" class="hidden secondary-btn">Abbrechen</button>
             </div>
         </div>
-    `;
-    
+        <div id="recipe-history" class="recipe-history hidden"></div>
+        ${renderRefinementPanel()}
+    `);
+
     // Element References
     const saveRecipeBtn = document.getElementById('save-recipe-btn') as HTMLButtonElement;
     const editRecipeBtn = document.getElementById('edit-recipe-btn') as HTMLButtonElement;
     const saveEditBtn = document.getElementById('save-edit-btn') as HTMLButtonElement;
     const cancelEditBtn = document.getElementById('cancel-edit-btn') as HTMLButtonElement;
     const shareRecipeBtn = document.getElementById('share-recipe-btn') as HTMLButtonElement;
+    const exportRecipeBtn = document.getElementById('export-recipe-btn') as HTMLButtonElement;
     const recipeDisplay = document.getElementById('recipe-display') as HTMLDivElement;
     const recipeEditForm = document.getElementById('recipe-edit-form') as HTMLDivElement;
+    const servingsInput = document.getElementById('servings-input') as HTMLInputElement;
+    const servingsDecreaseBtn = document.getElementById('servings-decrease-btn') as HTMLButtonElement;
+    const servingsIncreaseBtn = document.getElementById('servings-increase-btn') as HTMLButtonElement;
+    const ingredientsList = document.getElementById('ingredients-list') as HTMLUListElement;
+    const recipeCost = document.getElementById('recipe-cost') as HTMLParagraphElement;
+    const pantryCheck = document.getElementById('pantry-check') as HTMLDivElement;
+    const cookRecipeBtn = document.getElementById('cook-recipe-btn') as HTMLButtonElement;
+    const cookModeBtn = document.getElementById('cook-mode-btn') as HTMLButtonElement;
+    const historyBtn = document.getElementById('history-btn') as HTMLButtonElement;
+    const historyPanel = document.getElementById('recipe-history') as HTMLDivElement;
+    const editor = createRecipeEditor(recipeEditForm, { idPrefix: 'edit-recipe', imageLabel: 'Foto ändern (optional)' });
+    editor.setRecipe(recipe);
+
+    const getSelectedServings = () => Math.max(1, parseInt(servingsInput.value, 10) || recipe.servings);
+
+    const renderPantryCheck = (factor: number) => {
+        const pantry = getPantry();
+        if (pantry.length === 0) {
+            pantryCheck.classList.add('hidden');
+            return;
+        }
+        const { missing, usedUp } = checkPantry(recipe, pantry, factor);
+        pantryCheck.classList.remove('hidden');
+        render(pantryCheck, html`
+            <h3>Vorrat</h3>
+            ${missing.length > 0
+                ? html`<p><strong>Fehlt noch:</strong> ${missing.map(i => formatIngredient(i)).join(', ')}</p>`
+                : html`<p><strong>Alles da!</strong> Du hast alle Zutaten im Vorrat.</p>`}
+            ${usedUp.length > 0 && html`<p><strong>Wird aufgebraucht:</strong> ${usedUp.map(i => i.name).join(', ')}</p>`}
+            ${missing.length > 0 && html`<button type="button" id="add-missing-to-list-btn" class="secondary-btn">Fehlende auf die Einkaufsliste</button>`}
+        `);
+        pantryCheck.querySelector('#add-missing-to-list-btn')?.addEventListener('click', () => {
+            openShoppingListFor([{ ...recipe, ingredients: missing }]);
+        });
+    };
+
+    const renderCost = (servings: number) => {
+        const { perServing, isAiEstimate, unpriced } = displayedCost;
+        if (perServing === undefined) {
+            recipeCost.textContent = '💶 Für dieses Rezept sind keine Preise hinterlegt.';
+            return;
+        }
+        const source = isAiEstimate ? ' (KI-Schätzung)' : '';
+        const missing = unpriced.length > 0 ? ` · ohne Preis: ${unpriced.join(', ')}` : '';
+        recipeCost.textContent = `💶 ca. ${formatEuro(perServing)} pro Portion, ${formatEuro(perServing * servings)} gesamt${source}${missing}`;
+    };
+
+    // Quantities are stored for `recipe.servings` and only scaled for display.
+    const renderScaledIngredients = () => {
+        const servings = getSelectedServings();
+        const factor = servings / recipe.servings;
+        render(ingredientsList, renderIngredientItems(recipe.ingredients, factor, outOfSeason));
+        renderCost(servings);
+        renderPantryCheck(factor);
+    };
+    renderCost(recipe.servings);
+    renderPantryCheck(1);
 
     // Event Listeners
-    saveRecipeBtn?.addEventListener('click', () => {
-        if (currentRecipe) {
-            saveRecipeToStorage(currentRecipe);
-            saveRecipeBtn.disabled = true;
-            saveRecipeBtn.textContent = 'Gespeichert';
+    document.getElementById('back-to-suggestions-btn')?.addEventListener('click', () => {
+        renderRecipeSuggestions(currentSuggestions);
+    });
+    servingsInput.addEventListener('input', renderScaledIngredients);
+    servingsDecreaseBtn.addEventListener('click', () => {
+        servingsInput.value = String(Math.max(1, (parseInt(servingsInput.value, 10) || recipe.servings) - 1));
+        renderScaledIngredients();
+    });
+    servingsIncreaseBtn.addEventListener('click', () => {
+        servingsInput.value = String((parseInt(servingsInput.value, 10) || recipe.servings) + 1);
+        renderScaledIngredients();
+    });
+
+    // Disabled until storage has answered, so a recipe can't be saved twice.
+    isRecipeSaved(recipe).then(isSaved => {
+        saveRecipeBtn.disabled = isSaved;
+        saveRecipeBtn.textContent = isSaved ? 'Gespeichert' : 'Rezept speichern';
+    });
+
+    saveRecipeBtn?.addEventListener('click', async () => {
+        saveRecipeBtn.disabled = true;
+        const saved = await saveRecipeToStorage(recipe, { source: 'ai' });
+        if (!saved) {
+            saveRecipeBtn.disabled = false;
+            return;
         }
+        // Keep the same object so the refinement history stays attached to it.
+        recipe.id = saved.id;
+        recipe.imageUrl = saved.imageUrl;
+        saveRecipeBtn.textContent = 'Gespeichert';
+        historyBtn.classList.remove('hidden');
     });
 
     editRecipeBtn?.addEventListener('click', () => {
@@ -253,18 +598,39 @@ function renderRecipe(recipe: Recipe | null) {
         recipeEditForm.classList.remove('hidden');
         editRecipeBtn.classList.add('hidden');
         saveRecipeBtn.classList.add('hidden');
+        cookRecipeBtn.classList.add('hidden');
+        cookModeBtn.classList.add('hidden');
         shareRecipeBtn.classList.add('hidden');
+        exportRecipeBtn.classList.add('hidden');
+        historyBtn.classList.add('hidden');
+        historyPanel.classList.add('hidden');
+        document.getElementById('refinement-panel')?.classList.add('hidden');
         saveEditBtn.classList.remove('hidden');
         cancelEditBtn.classList.remove('hidden');
     });
 
+    bindRefinementPanel();
+
+    historyBtn.addEventListener('click', () => {
+        const isHidden = historyPanel.classList.toggle('hidden');
+        if (!isHidden) {
+            renderRecipeHistory(recipe);
+        }
+    });
+
+    cookModeBtn?.addEventListener('click', () => openCookMode(recipe, getSelectedServings() / recipe.servings));
+
+    cookRecipeBtn?.addEventListener('click', () => openCookedModal(recipe, getSelectedServings() / recipe.servings));
+
     cancelEditBtn?.addEventListener('click', () => {
-        renderRecipe(originalRecipeForUpdate);
+        // Same object as before, so the refinement history survives cancelling an edit.
+        renderRecipe(recipe);
     });
 
     shareRecipeBtn?.addEventListener('click', () => {
         if (currentRecipe) {
-            navigator.clipboard.writeText(JSON.stringify(currentRecipe, null, 2))
+            // Readable in any messenger; files for importing come from "Exportieren".
+            navigator.clipboard.writeText(exportRecipes([currentRecipe], 'markdown').content)
                 .then(() => {
                     const originalText = shareRecipeBtn.textContent;
                     shareRecipeBtn.textContent = 'Kopiert!';
@@ -281,46 +647,212 @@ function renderRecipe(recipe: Recipe | null) {
         }
     });
 
+    exportRecipeBtn?.addEventListener('click', () => openExportModal([recipe]));
+
     saveEditBtn?.addEventListener('click', async () => {
-        const imageInput = document.getElementById('edit-recipe-image') as HTMLInputElement;
-        const imageFile = imageInput.files?.[0];
-        let imageUrl = originalRecipeForUpdate.imageUrl; // Keep old image by default
+        const edited = editor.getRecipe();
+        if (!edited) {
+            alert("Bitte fülle alle erforderlichen Felder aus.");
+            return;
+        }
+        const imageFile = editor.getImageFile();
+        // The repository stores the file itself; the object URL is only for display.
+        const updatedRecipe: Recipe = { ...edited, imageUrl: imageFile ? URL.createObjectURL(imageFile) : edited.imageUrl };
 
-        if (imageFile) {
-            try {
-                imageUrl = await readFileAsDataURL(imageFile);
-            } catch (error) {
-                console.error("Fehler beim Lesen der Bilddatei:", error);
-                alert("Das Bild konnte nicht verarbeitet werden.");
-                return; // Stop if image processing fails
-            }
+        if (!updatedRecipe.id) {
+            renderRecipe(updatedRecipe);
+            return;
         }
 
-        const updatedRecipe: Recipe = {
-            recipeName: (document.getElementById('edit-recipe-name') as HTMLInputElement).value.trim(),
-            description: (document.getElementById('edit-recipe-description') as HTMLTextAreaElement).value.trim(),
-            ingredients: (document.getElementById('edit-recipe-ingredients') as HTMLTextAreaElement).value.split('\n').map(i => i.trim()).filter(i => i !== ''),
-            instructions: (document.getElementById('edit-recipe-instructions') as HTMLTextAreaElement).value.split('\n').map(i => i.trim()).filter(i => i !== ''),
-            imageUrl: imageUrl,
-        };
-        
         // If the name changed, we need to check if the new name already exists
-        if (updatedRecipe.recipeName.toLowerCase() !== originalRecipeForUpdate.recipeName.toLowerCase() && isRecipeSaved(updatedRecipe.recipeName)) {
+        const sameName = await recipeRepository.findRecipeByName(updatedRecipe.recipeName);
+        if (sameName && sameName.id !== updatedRecipe.id) {
              alert("Ein Rezept mit diesem neuen Namen existiert bereits.");
              return;
         }
 
-        updateRecipeInStorage(originalRecipeForUpdate.recipeName, updatedRecipe);
-        renderRecipe(updatedRecipe);
+        const saved = await updateRecipeInStorage(updatedRecipe.id, updatedRecipe, { source: 'manual' });
+        if (imageFile) {
+            URL.revokeObjectURL(updatedRecipe.imageUrl!);
+        }
+        if (saved) {
+            renderRecipe(saved);
+        }
+    });
+}
+
+// Shows the recipe while it is still being streamed; replaced by `renderRecipe` once complete.
+function renderStreamingRecipe(partial: PartialRecipe) {
+    const ingredients = normalizeRecipe({ ingredients: partial.ingredients }).ingredients;
+    recipeOutput.style.opacity = '1';
+    render(recipeOutput, html`
+        <div class="recipe-card streaming" aria-busy="true">
+            <h2>${partial.recipeName || '…'}</h2>
+            <p class="description">${partial.description}</p>
+            <div class="recipe-details">
+                <div class="ingredients">
+                    <h3>Zutaten</h3>
+                    <ul>
+                        ${renderIngredientItems(ingredients)}
+                    </ul>
+                </div>
+                <div class="instructions">
+                    <h3>Anleitung</h3>
+                    <ol>
+                        ${partial.instructions.map(i => html`<li>${i}</li>`)}
+                    </ol>
+                </div>
+            </div>
+        </div>
+    `);
+}
+
+function renderIngredientItems(ingredients: Ingredient[], factor = 1, outOfSeason: Ingredient[] = []): SafeHtml {
+    return html`${ingredients.map(i => outOfSeason.includes(i)
+        ? html`<li class="out-of-season">${formatIngredient(i, factor)} <span class="season-badge">nicht saisonal</span></li>`
+        : html`<li>${formatIngredient(i, factor)}</li>`)}`;
+}
+
+function renderSeasonCheck(issues: SeasonalIssue[], month: number): SafeHtml {
+    if (issues.length === 0) return html``;
+    return html`
+        <div class="season-check">
+            <h3>Saison im ${getMonthName(month)}</h3>
+            <ul>
+                ${issues.map(({ ingredient, entry, swaps }) => html`
+                    <li>
+                        <strong>${ingredient.name}</strong> gibt es aus der Region nur ${formatSeason(entry.months)}.
+                        ${swaps.length > 0 && html`Gerade Saison: ${swaps.join(', ')}.`}
+                    </li>
+                `)}
+            </ul>
+        </div>
+    `;
+}
+
+function renderAllergenBadges(recipe: Recipe): SafeHtml {
+    const allergens = getRecipeAllergens(recipe).map(id => getAllergen(id)!);
+    if (allergens.length === 0) return html``;
+    return html`
+        <ul class="allergen-badges" aria-label="Allergene">
+            ${allergens.map(a => html`<li class="allergen-badge" title="${a.label}">${a.shortLabel}</li>`)}
+        </ul>
+    `;
+}
+
+function renderTagList(tags: string[] = []): SafeHtml {
+    if (tags.length === 0) return html``;
+    return html`<ul class="tag-list">${tags.map(tag => html`<li class="tag">${tag}</li>`)}</ul>`;
+}
+
+function formatRecipeFacts(recipe: Recipe): string {
+    const facts: string[] = [];
+    if (recipe.totalTimeMinutes) facts.push(`⏱ ${recipe.totalTimeMinutes} Min.`);
+    if (recipe.difficulty) facts.push(`📊 ${recipe.difficulty}`);
+    return facts.join(' · ');
+}
+
+function renderRecipeSuggestions(recipes: Recipe[]) {
+    currentRecipe = null;
+    render(recipeOutput, html`<div class="suggestion-grid"></div>`);
+    const grid = recipeOutput.querySelector('.suggestion-grid') as HTMLDivElement;
+
+    recipes.forEach(recipe => {
+        const { perServing, isAiEstimate } = getDisplayedCost(recipe);
+        const overBudget = currentBudget !== null && checkBudget(recipe, currentBudget) !== null;
+        const allergenConflicts = checkAllergenExclusions(recipe, currentAllergenExclusions);
+        const card = document.createElement('div');
+        card.classList.add('suggestion-card');
+        render(card, html`
+            <h3>${recipe.recipeName}</h3>
+            <p class="description">${recipe.description}</p>
+            <ul class="suggestion-facts">
+                <li>⏱ ${recipe.totalTimeMinutes ? `${recipe.totalTimeMinutes} Min.` : '–'}</li>
+                <li>📊 ${recipe.difficulty ?? '–'}</li>
+                <li class="${overBudget ? 'over-budget' : ''}" title="${isAiEstimate ? '* KI-Schätzung' : ''}">💶 ${perServing !== undefined ? `${formatEuro(perServing)} / Portion${isAiEstimate ? '*' : ''}` : '–'}</li>
+                ${recipe.nutrition && html`<li>🔥 ${Math.round(recipe.nutrition.kcal)} kcal</li>`}
+            </ul>
+            ${allergenConflicts.length > 0 && html`<p class="over-budget">⚠ Enthält: ${allergenConflicts.map(c => c.allergen.shortLabel).join(', ')}</p>`}
+            <div class="suggestion-actions">
+                <button type="button" class="open-suggestion-btn">Öffnen</button>
+                <button type="button" class="save-suggestion-btn secondary-btn" disabled>Speichern</button>
+            </div>
+        `);
+        card.querySelector('.open-suggestion-btn')?.addEventListener('click', () => {
+            renderRecipe(recipe);
+            if (currentBudget !== null) {
+                renderBudgetCheck(recipe, currentBudget);
+            }
+            renderAllergenCheck(recipe, currentAllergenExclusions);
+        });
+        const saveBtn = card.querySelector('.save-suggestion-btn') as HTMLButtonElement;
+        isRecipeSaved(recipe).then(isSaved => {
+            saveBtn.disabled = isSaved;
+            saveBtn.textContent = isSaved ? 'Gespeichert' : 'Speichern';
+        });
+        saveBtn.addEventListener('click', async () => {
+            saveBtn.disabled = true;
+            const saved = await saveRecipeToStorage(recipe, { source: 'ai' });
+            if (saved) {
+                recipe.id = saved.id;
+                saveBtn.textContent = 'Gespeichert';
+            } else {
+                saveBtn.disabled = false;
+            }
+        });
+        grid.appendChild(card);
+    });
+}
+
+function renderBudgetCheck(recipe: Recipe, budget: number) {
+    const perServing = checkBudget(recipe, budget);
+    if (perServing === null) return;
+
+    const warning = document.createElement('div');
+    warning.classList.add('budget-warning');
+    warning.setAttribute('role', 'alert');
+    warning.textContent = `Achtung: Dieses Rezept kostet voraussichtlich ${formatEuro(perServing)} pro Portion und liegt damit über deinem Budget von ${formatEuro(budget)}.`;
+    recipeOutput.querySelector('.recipe-card')?.prepend(warning);
+}
+
+function renderAllergenCheck(recipe: Recipe, excluded: AllergenId[]) {
+    const conflicts = checkAllergenExclusions(recipe, excluded);
+    if (conflicts.length === 0) return;
+
+    const warning = document.createElement('div');
+    warning.classList.add('budget-warning');
+    warning.setAttribute('role', 'alert');
+    const details = conflicts.map(({ allergen, ingredients }) => ingredients.length > 0 ? `${allergen.label} (${ingredients.join(', ')})` : allergen.label);
+    warning.textContent = `Achtung: Dieses Rezept enthält Allergene, die du ausschließen wolltest: ${details.join('; ')}.`;
+    recipeOutput.querySelector('.recipe-card')?.prepend(warning);
+}
+
+function renderAllergenExclusions() {
+    const excluded = getAllergenExclusions();
+    render(allergenExclusionsContainer, html`${EU_ALLERGENS.map(a => html`
+        <label class="checkbox-label">
+            <input type="checkbox" value="${a.id}" ${excluded.includes(a.id) && html`checked`}>
+            ${a.label}
+        </label>
+    `)}`);
+    allergenExclusionsSummary.textContent = excluded.length > 0
+        ? `Allergene ausschließen (${excluded.length})`
+        : 'Allergene ausschließen';
+    allergenExclusionsContainer.querySelectorAll<HTMLInputElement>('input').forEach(checkbox => {
+        checkbox.addEventListener('change', () => {
+            const checked = [...allergenExclusionsContainer.querySelectorAll<HTMLInputElement>('input:checked')].map(c => c.value as AllergenId);
+            saveAllergenExclusions(checked);
+            renderAllergenExclusions();
+        });
     });
 }
 
 function renderError(message: string) {
-    recipeOutput.innerHTML = `<div class="error-message">${message}</div>`;
+    render(recipeOutput, message ? html`<div class="error-message">${message}</div>` : html``);
 }
 
-function updateSavedCount() {
-    const count = getSavedRecipes().length;
+async function updateSavedCount() {
+    const count = (await getSavedRecipes()).length;
     if (count > 0) {
         savedCountBadge.textContent = String(count);
         savedCountBadge.classList.remove('hidden');
@@ -329,177 +861,1947 @@ function updateSavedCount() {
     }
 }
 
-function renderSavedRecipes() {
-    const recipes = getSavedRecipes();
+function renderSavedRecipeFilters(recipes: Recipe[]) {
+    const tags = collectTags(recipes);
+    // A tag that no recipe carries any more can't be filtered by.
+    if (savedRecipesQuery.tag && !tags.some(tag => tag.toLowerCase() === savedRecipesQuery.tag.toLowerCase())) {
+        savedRecipesQuery.tag = '';
+    }
+    render(savedTagFilter, html`
+        <option value="">Alle Tags</option>
+        ${tags.map(tag => html`<option value="${tag}" ${tag === savedRecipesQuery.tag && html`selected`}>${tag}</option>`)}
+    `);
+    savedTagFilter.disabled = tags.length === 0;
+}
+
+function updateSavedRecipesQuery() {
+    savedRecipesQuery = {
+        search: savedSearchInput.value,
+        difficulty: savedDifficultyFilter.value,
+        tag: savedTagFilter.value,
+        sort: savedSortSelect.value as RecipeSortOrder,
+    };
+    renderSavedRecipes();
+}
+
+async function renderSavedRecipes() {
+    const allRecipes = await getSavedRecipes();
+    const recipes = filterRecipes(allRecipes, savedRecipesQuery);
+    renderSavedRecipeFilters(allRecipes);
     savedRecipesList.innerHTML = '';
+    // Drop selections of recipes that were deleted in the meantime.
+    [...selectedRecipeIds].forEach(id => {
+        if (!allRecipes.some(r => r.id === id)) selectedRecipeIds.delete(id);
+    });
+    createShoppingListBtn.disabled = selectedRecipeIds.size === 0;
+    if (allRecipes.length === 0) {
+        render(savedRecipesList, html`<p class="no-saved-recipes">Du hast noch keine Rezepte gespeichert.</p>`);
+        return;
+    }
     if (recipes.length === 0) {
-        savedRecipesList.innerHTML = '<p class="no-saved-recipes">Du hast noch keine Rezepte gespeichert.</p>';
+        render(savedRecipesList, html`<p class="no-saved-recipes">Keine Rezepte passen zu deiner Suche.</p>`);
         return;
     }
 
+    const links = workspaceSession ? getRecipeLinks() : [];
+    const cookingLog = getCookingLog();
     recipes.forEach(recipe => {
+        const link = links.find(l => l.recipeId === recipe.id);
+        const stats = getCookingStats(cookingLog, recipe.id!);
         const item = document.createElement('div');
         item.classList.add('saved-recipe-item');
-        item.innerHTML = `
-            ${recipe.imageUrl ? `<img src="${recipe.imageUrl}" alt="${recipe.recipeName}" class="saved-recipe-thumbnail">` : '<div class="saved-recipe-thumbnail-placeholder">🍳</div>'}
+        const facts = formatRecipeFacts(recipe);
+        render(item, html`
+            <input type="checkbox" class="select-recipe-checkbox" aria-label="${recipe.recipeName} für die Einkaufsliste auswählen" ${selectedRecipeIds.has(recipe.id!) && html`checked`}>
+            ${recipe.imageUrl
+                ? html`<img src="${recipe.imageUrl}" alt="${recipe.recipeName}" class="saved-recipe-thumbnail">`
+                : html`<div class="saved-recipe-thumbnail-placeholder">🍳</div>`}
             <div class="saved-recipe-details">
                 <h4>${recipe.recipeName}</h4>
                 <p>${recipe.description}</p>
+                ${facts && html`<p class="recipe-meta">${facts}</p>`}
+                ${renderTagList(recipe.tags)}
+                ${renderAllergenBadges(recipe)}
+                ${stats.timesCooked > 0 && html`
+                    <p class="recipe-meta cooking-stats">🍽️ ${stats.timesCooked}× gekocht${stats.averageRating !== null && html`
+                        · <span class="rating" title="Durchschnittliche Bewertung">${formatRating(stats.averageRating)}</span> ${stats.averageRating.toLocaleString('de-DE', { maximumFractionDigits: 1 })}`}
+                    </p>`}
+                ${link && html`<span class="shared-badge">${!link.own ? 'Aus der Klasse' : link.groupRecipeId ? 'In der Klasse geteilt' : 'Wird geteilt...'}</span>`}
             </div>
             <div>
                 <button class="view-btn">Ansehen</button>
+                ${workspaceSession && !link && html`<button class="share-group-btn">In Klasse teilen</button>`}
                 <button class="delete-btn">Löschen</button>
             </div>
-        `;
+        `);
 
+        item.querySelector('.select-recipe-checkbox')?.addEventListener('change', (e) => {
+            if ((e.target as HTMLInputElement).checked) {
+                selectedRecipeIds.add(recipe.id!);
+            } else {
+                selectedRecipeIds.delete(recipe.id!);
+            }
+            createShoppingListBtn.disabled = selectedRecipeIds.size === 0;
+        });
         item.querySelector('.view-btn')?.addEventListener('click', () => {
+            currentSuggestions = [];
             renderRecipe(recipe);
             savedRecipesModal.classList.add('hidden');
         });
+        item.querySelector('.share-group-btn')?.addEventListener('click', () => shareRecipeWithGroup(recipe));
         item.querySelector('.delete-btn')?.addEventListener('click', () => {
             if (confirm(`Möchtest du das Rezept "${recipe.recipeName}" wirklich löschen?`)) {
-                removeRecipeFromStorage(recipe.recipeName);
+                removeRecipeFromStorage(recipe.id!);
             }
         });
         savedRecipesList.appendChild(item);
     });
 }
 
-function renderBrowseRecipes() {
+async function renderBrowseRecipes() {
+    const { rediscover, inspiration, untried } = suggestFromHistory(await getSavedRecipes(), getCookingLog());
     browseRecipesList.innerHTML = '';
-    sampleRecipeIdeas.forEach(idea => {
+    if (rediscover.length === 0 && inspiration.length === 0 && untried.length === 0) {
+        render(browseRecipesList, html`<p class="no-saved-recipes">Noch keine Vorschläge. Speichere Rezepte und trage nach dem Kochen mit „Gekocht“ ein, wie sie dir geschmeckt haben.</p>`);
+        return;
+    }
+
+    const addGroup = (title: string, recipes: Recipe[], createItem: (recipe: Recipe) => HTMLButtonElement) => {
+        if (recipes.length === 0) return;
+        const group = document.createElement('section');
+        group.classList.add('recipe-idea-group');
+        render(group, html`<h3>${title}</h3><div class="recipe-idea-list"></div>`);
+        recipes.forEach(recipe => group.querySelector('.recipe-idea-list')!.appendChild(createItem(recipe)));
+        browseRecipesList.appendChild(group);
+    };
+    const openSaved = (recipe: Recipe) => {
         const item = document.createElement('button');
         item.classList.add('recipe-idea-btn');
-        item.textContent = idea;
+        item.textContent = recipe.recipeName;
+        item.addEventListener('click', () => {
+            currentSuggestions = [];
+            renderRecipe(recipe);
+            browseRecipesModal.classList.add('hidden');
+        });
+        return item;
+    };
+
+    addGroup('Lange nicht gekocht', rediscover, openSaved);
+    addGroup('Neu, in der Art deiner Lieblinge', inspiration, recipe => {
+        const item = document.createElement('button');
+        item.classList.add('recipe-idea-btn', 'requires-online');
+        item.textContent = `Etwas wie „${recipe.recipeName}“`;
         item.addEventListener('click', () => {
-            promptInput.value = idea;
+            promptInput.value = similarRecipeIdea(recipe);
             browseRecipesModal.classList.add('hidden');
             recipeForm.dispatchEvent(new Event('submit', { cancelable: true }));
         });
-        browseRecipesList.appendChild(item);
+        return item;
     });
+    addGroup('Noch nie gekocht', untried, openSaved);
 }
 
+// --- Cooking Log ---
+// The date input works with local dates, `toISOString` would be off by a day around midnight.
+function toDateInputValue(date: Date): string {
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 10);
+}
 
-// --- Main Gemini Function ---
-async function generateRecipe(event: Event) {
+function renderCookingLog(recipe: Recipe): SafeHtml {
+    const entries = recipe.id ? getRecipeLog(getCookingLog(), recipe.id) : [];
+    if (entries.length === 0) return html``;
+    return html`
+        <div class="cooking-log">
+            <h3>Kochbuch</h3>
+            <ul>
+                ${entries.map(entry => html`
+                    <li>
+                        <span class="cooking-log-date">${new Date(entry.cookedAt).toLocaleDateString('de-DE')}</span>
+                        <span class="rating" aria-label="${entry.rating} von 5 Sternen">${formatRating(entry.rating)}</span>
+                        ${entry.notes && html`<span class="cooking-log-notes">${entry.notes}</span>`}
+                    </li>`)}
+            </ul>
+        </div>
+    `;
+}
+
+function openCookedModal(recipe: Recipe, factor: number) {
+    cookedTarget = { recipe, factor };
+    cookedForm.reset();
+    cookedRecipeName.textContent = recipe.recipeName;
+    const today = toDateInputValue(new Date());
+    cookedDateInput.value = today;
+    cookedDateInput.max = today;
+    cookedPantryOption.classList.toggle('hidden', getPantry().length === 0);
+    cookedModal.classList.remove('hidden');
+}
+
+async function handleCookedSubmit(event: Event) {
     event.preventDefault();
-    if (!promptInput.value.trim()) {
-        alert("Bitte gib ein, was du kochen möchtest.");
+    if (!cookedTarget) return;
+    const { recipe, factor } = cookedTarget;
+    const rating = parseInt((cookedForm.querySelector('input[name="cooked-rating"]:checked') as HTMLInputElement | null)?.value ?? '', 10);
+    if (!isValidRating(rating) || !cookedDateInput.value) {
+        alert("Bitte wähle ein Datum und eine Bewertung.");
         return;
     }
-    setLoading(true);
-    renderError('');
-    renderRecipe(null);
 
-    const prompt = `
-        Erstelle ein einfaches und günstiges Rezept für Lehrlinge basierend auf den folgenden Angaben.
-        Gib die Antwort als einzelnes JSON-Objekt zurück, das dem bereitgestellten Schema entspricht. Gib keinen Markdown oder zusätzlichen Text aus.
+    // A log entry needs a saved recipe; cooking a generated one is reason enough to keep it.
+    if (!recipe.id) {
+        const saved = await saveRecipeToStorage(recipe, { source: 'ai' });
+        if (!saved) return;
+        recipe.id = saved.id;
+        recipe.imageUrl = saved.imageUrl;
+    }
 
-        Gericht: "${promptInput.value}"
-        Schwierigkeitsgrad: "${difficultySelect.value}"
-        Zusätzliche Wünsche: "${wishesInput.value || 'Keine'}"
-    `;
+    const now = new Date();
+    // Today keeps the time, so several entries on one day stay in order.
+    const cookedAt = cookedDateInput.value === toDateInputValue(now)
+        ? now.toISOString()
+        : new Date(`${cookedDateInput.value}T12:00:00`).toISOString();
+    const entry: CookingLogEntry = { id: createId(), recipeId: recipe.id, cookedAt, rating, notes: cookedNotesTextarea.value.trim() };
+    saveCookingLog([...getCookingLog(), entry]);
 
-    try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: recipeSchema,
-            },
-        });
-        const responseText = result.text.trim();
-        const recipe: Recipe = JSON.parse(responseText);
+    if (!cookedPantryOption.classList.contains('hidden') && cookedUsePantryCheckbox.checked) {
+        savePantry(consumeIngredients(getPantry(), recipe, factor));
+    }
+    cookedTarget = null;
+    cookedModal.classList.add('hidden');
+
+    if (!recipe.lastCookedAt || cookedAt > recipe.lastCookedAt) {
+        recipe.lastCookedAt = cookedAt;
+        // Not a change of the recipe itself, so no new version.
+        await updateRecipeInStorage(recipe.id, recipe, { source: 'manual' });
+    } else {
+        await renderSavedRecipes();
+    }
+    if (currentRecipe === recipe) {
         renderRecipe(recipe);
-    } catch (error) {
-        console.error("Fehler bei der Rezeptgenerierung:", error);
-        renderError("Entschuldigung, bei der Erstellung des Rezepts ist ein Fehler aufgetreten. Bitte versuche es später erneut oder präzisiere deine Anfrage.");
-    } finally {
-        setLoading(false);
     }
 }
 
-// --- Add Manual Recipe ---
-async function handleAddRecipe(event: Event) {
-    event.preventDefault();
-
-    const imageFile = addRecipeImageInput.files?.[0];
-    let imageUrl: string | undefined = undefined;
+// --- Cook Mode ---
+function openCookMode(recipe: Recipe, factor: number) {
+    cookModeSession = { recipe, factor, step: 0 };
+    cookModeTitle.textContent = recipe.recipeName;
+    cookMode.classList.remove('hidden');
+    document.body.classList.add('cook-mode-open');
+    // Fullscreen and wake lock are nice to have; cook mode works without them.
+    cookMode.requestFullscreen?.().catch(() => {});
+    requestWakeLock();
+    renderCookModeStep();
+    renderCookTimers();
+}
 
-    if (imageFile) {
-        try {
-            imageUrl = await readFileAsDataURL(imageFile);
-        } catch (error) {
-            console.error("Fehler beim Lesen der Bilddatei:", error);
-            alert("Das Bild konnte nicht verarbeitet werden.");
-            return;
-        }
+function closeCookMode() {
+    const running = cookTimers.some(t => !t.finished);
+    if (running && !confirm('Es laufen noch Timer. Kochmodus trotzdem beenden?')) {
+        return;
     }
+    cookTimers = [];
+    stopCookTimerInterval();
+    cookModeSession = null;
+    cookMode.classList.add('hidden');
+    document.body.classList.remove('cook-mode-open');
+    if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+    }
+    releaseWakeLock();
+}
 
-    const newRecipe: Recipe = {
-        recipeName: addRecipeNameInput.value.trim(),
-        description: addRecipeDescriptionTextarea.value.trim(),
-        ingredients: addRecipeIngredientsTextarea.value.split('\n').map(line => line.trim()).filter(line => line),
-        instructions: addRecipeInstructionsTextarea.value.split('\n').map(line => line.trim()).filter(line => line),
-        imageUrl: imageUrl,
-    };
+function renderCookModeStep() {
+    if (!cookModeSession) return;
+    const { recipe, factor, step } = cookModeSession;
+    const text = recipe.instructions[step] ?? '';
+    const stepIngredients = findStepIngredients(text, recipe.ingredients);
 
-    if (!newRecipe.recipeName || newRecipe.ingredients.length === 0 || newRecipe.instructions.length === 0) {
-        alert("Bitte fülle alle erforderlichen Felder aus.");
+    cookModeProgress.textContent = `Schritt ${step + 1} von ${recipe.instructions.length}`;
+    cookModeStepText.textContent = text;
+    render(cookModeIngredients, html`${recipe.ingredients
+        .map(i => html`<li class="${stepIngredients.includes(i) && 'highlighted'}">${formatIngredient(i, factor)}</li>`)}`);
+    render(cookModeStepTimers, html`${detectDurations(text)
+        .map(d => html`<button type="button" class="start-timer-btn" data-seconds="${d.seconds}" data-label="${d.text}">⏱ ${d.text} – Timer starten</button>`)}`);
+    cookModeStepTimers.querySelectorAll<HTMLButtonElement>('.start-timer-btn').forEach(button => {
+        button.addEventListener('click', () => {
+            startCookTimer(`Schritt ${step + 1}: ${button.dataset.label}`, parseInt(button.dataset.seconds!, 10));
+        });
+    });
+
+    cookModePrevBtn.disabled = step === 0;
+    cookModeNextBtn.textContent = step === recipe.instructions.length - 1 ? 'Fertig ✓' : 'Weiter →';
+}
+
+function goToCookModeStep(step: number) {
+    if (!cookModeSession) return;
+    if (step >= cookModeSession.recipe.instructions.length) {
+        closeCookMode();
         return;
     }
+    cookModeSession.step = Math.max(0, step);
+    renderCookModeStep();
+}
 
-    saveRecipeToStorage(newRecipe);
-    addRecipeForm.reset();
-    addRecipeModal.classList.add('hidden');
-    renderSavedRecipes();
+function startCookTimer(label: string, seconds: number) {
+    // Browsers only allow sound after a user gesture, so the audio context is unlocked here.
+    audioContext ??= new AudioContext();
+    audioContext.resume().catch(() => {});
+    cookTimers.push(createTimer(label, seconds));
+    renderCookTimers();
+    cookTimerInterval ??= window.setInterval(tickCookTimers, 1000);
 }
 
-// --- Theme Toggle ---
-function toggleTheme(event: Event) {
-    const target = event.target as HTMLInputElement;
-    if (target.checked) {
-        document.body.classList.add('dark-theme');
-        localStorage.setItem('theme', 'dark');
-    } else {
-        document.body.classList.remove('dark-theme');
-        localStorage.setItem('theme', 'light');
+function stopCookTimerInterval() {
+    if (cookTimerInterval !== null) {
+        clearInterval(cookTimerInterval);
+        cookTimerInterval = null;
     }
 }
 
+function renderCookTimers() {
+    render(cookModeTimers, html`${cookTimers.map(timer => html`
+        <li class="cook-timer ${timer.finished && 'finished'}" data-id="${timer.id}">
+            <span class="cook-timer-label">${timer.label}</span>
+            <span class="cook-timer-remaining">${timer.finished ? 'Fertig!' : formatDuration(getRemainingMs(timer) / 1000)}</span>
+            ${!timer.finished && html`<button type="button" class="toggle-timer-btn secondary-btn">${timer.endsAt === null ? 'Weiter' : 'Pause'}</button>`}
+            <button type="button" class="remove-timer-btn secondary-btn" aria-label="Timer entfernen">✕</button>
+        </li>
+    `)}`);
 
-// --- Event Listeners ---
-function initializeApp() {
-    recipeForm.addEventListener('submit', generateRecipe);
-
-    // Modal Toggles
-    viewSavedBtn.addEventListener('click', () => {
-        renderSavedRecipes();
-        savedRecipesModal.classList.remove('hidden');
+    cookModeTimers.querySelectorAll<HTMLLIElement>('.cook-timer').forEach(item => {
+        const id = item.dataset.id;
+        item.querySelector('.toggle-timer-btn')?.addEventListener('click', () => {
+            cookTimers = cookTimers.map(t => (t.id !== id ? t : t.endsAt === null ? resumeTimer(t) : pauseTimer(t)));
+            renderCookTimers();
+        });
+        item.querySelector('.remove-timer-btn')?.addEventListener('click', () => {
+            cookTimers = cookTimers.filter(t => t.id !== id);
+            renderCookTimers();
+        });
     });
-    closeModalBtn.addEventListener('click', () => savedRecipesModal.classList.add('hidden'));
+}
 
-    browseRecipesBtn.addEventListener('click', () => {
-        renderBrowseRecipes();
-        browseRecipesModal.classList.remove('hidden');
+// Only the remaining times change every second; the buttons are left alone so clicks aren't lost.
+function tickCookTimers() {
+    let finishedNow = false;
+    cookTimers.forEach(timer => {
+        if (timer.finished || timer.endsAt === null) return;
+        const remaining = getRemainingMs(timer);
+        if (remaining === 0) {
+            timer.finished = true;
+            finishedNow = true;
+            return;
+        }
+        const display = cookModeTimers.querySelector(`[data-id="${timer.id}"] .cook-timer-remaining`);
+        if (display) display.textContent = formatDuration(remaining / 1000);
     });
-    closeBrowseModalBtn.addEventListener('click', () => browseRecipesModal.classList.add('hidden'));
-
-    addRecipeBtn.addEventListener('click', () => addRecipeModal.classList.remove('hidden'));
-    closeAddModalBtn.addEventListener('click', () => addRecipeModal.classList.add('hidden'));
+    if (finishedNow) {
+        playTimerAlarm();
+        renderCookTimers();
+    }
+    if (!cookTimers.some(t => !t.finished && t.endsAt !== null)) {
+        stopCookTimerInterval();
+    }
+}
 
-    // Close modals on overlay click
-    [savedRecipesModal, browseRecipesModal, addRecipeModal].forEach(modal => {
-        modal.addEventListener('click', (e) => {
-            if (e.target === modal) {
-                modal.classList.add('hidden');
-            }
-        });
-    });
+function playTimerAlarm() {
+    navigator.vibrate?.([300, 100, 300, 100, 300]);
+    if (!audioContext) return;
+    const start = audioContext.currentTime;
+    for (let i = 0; i < 3; i++) {
+        const oscillator = audioContext.createOscillator();
+        const gain = audioContext.createGain();
+        const beepStart = start + i * 0.5;
+        oscillator.frequency.value = 880;
+        gain.gain.setValueAtTime(0.3, beepStart);
+        gain.gain.exponentialRampToValueAtTime(0.001, beepStart + 0.4);
+        oscillator.connect(gain).connect(audioContext.destination);
+        oscillator.start(beepStart);
+        oscillator.stop(beepStart + 0.4);
+    }
+}
 
-    addRecipeForm.addEventListener('submit', handleAddRecipe);
+async function requestWakeLock() {
+    if (!('wakeLock' in navigator)) return;
+    try {
+        wakeLock = await navigator.wakeLock.request('screen');
+        wakeLock.addEventListener('release', () => { wakeLock = null; });
+    } catch (error) {
+        // E.g. denied because the battery is low; the screen may then turn off as usual.
+        console.error("Fehler beim Aktivieren der Bildschirmsperre:", error);
+    }
+}
+
+function releaseWakeLock() {
+    wakeLock?.release().catch(() => {});
+    wakeLock = null;
+}
+
+function handleCookModeKeydown(event: KeyboardEvent) {
+    if (!cookModeSession) return;
+    // Space on a focused button should press the button, not turn the page.
+    if (event.key === ' ' && (event.target as HTMLElement).closest('button')) return;
+    switch (event.key) {
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+            event.preventDefault();
+            goToCookModeStep(cookModeSession.step + 1);
+            break;
+        case 'ArrowLeft':
+        case 'PageUp':
+            event.preventDefault();
+            goToCookModeStep(cookModeSession.step - 1);
+            break;
+        case 'Escape':
+            closeCookMode();
+            break;
+    }
+}
+
+// --- Import & Export ---
+function openExportModal(recipes: Recipe[]) {
+    exportTarget = recipes;
+    exportSummary.textContent = recipes.length === 1
+        ? `Rezept: ${recipes[0].recipeName}`
+        : `${recipes.length} Rezepte`;
+    exportImagesCheckbox.disabled = exportFormatSelect.value !== 'json';
+    exportModal.classList.remove('hidden');
+}
+
+// Object URLs don't survive the page, so photos go into the file as data URLs.
+async function embedImage(recipe: Recipe): Promise<Recipe> {
+    if (!recipe.imageUrl || recipe.imageUrl.startsWith('data:')) return recipe;
+    const blob = await (await fetch(recipe.imageUrl)).blob();
+    return { ...recipe, imageUrl: await readBlobAsDataURL(blob) };
+}
+
+async function downloadExport() {
+    const format = exportFormatSelect.value as ExportFormat;
+    let recipes = exportTarget;
+    if (format === 'json' && exportImagesCheckbox.checked) {
+        try {
+            recipes = await Promise.all(recipes.map(embedImage));
+        } catch (error) {
+            console.error("Fehler beim Lesen der Fotos:", error);
+            alert('Die Fotos konnten nicht exportiert werden. Die Rezepte werden ohne Fotos exportiert.');
+        }
+    }
+    const { content, mimeType, extension } = exportRecipes(recipes, format);
+    const baseName = recipes.length === 1
+        ? recipes[0].recipeName.toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-').replace(/^-|-$/g, '') || 'rezept'
+        : 'rezepte';
+    downloadTextFile(`${baseName}.${extension}`, content, mimeType);
+    exportModal.classList.add('hidden');
+}
+
+function openImportModal() {
+    pendingImports = [];
+    importFileInput.value = '';
+    importTextInput.value = '';
+    importPreview.innerHTML = '';
+    confirmImportBtn.disabled = true;
+    importModal.classList.remove('hidden');
+}
+
+async function checkImport() {
+    const sources: { name: string; text: string }[] = await Promise.all(
+        [...(importFileInput.files ?? [])].map(async file => ({ name: file.name, text: await file.text() })),
+    );
+    if (importTextInput.value.trim()) {
+        sources.push({ name: 'Eingefügter Text', text: importTextInput.value });
+    }
+    if (sources.length === 0) {
+        render(importPreview, html`<p class="modal-hint">Wähle eine Datei aus oder füge JSON ein.</p>`);
+        return;
+    }
+
+    const saved = await getSavedRecipes();
+    const fileErrors: string[] = [];
+    pendingImports = [];
+    sources.forEach(source => {
+        try {
+            parseRecipeImport(source.text).forEach(entry => {
+                const existing = entry.recipe && saved.find(r => r.recipeName.toLowerCase() === entry.recipe!.recipeName.toLowerCase());
+                pendingImports.push({ entry, existing });
+            });
+        } catch (error) {
+            fileErrors.push(`${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    renderImportPreview(fileErrors);
+}
+
+function renderImportPreview(fileErrors: string[]) {
+    const rows = pendingImports.map(({ entry, existing }, index) => {
+        if (!entry.recipe) {
+            return html`<li class="import-invalid"><strong>✗ ${entry.label}</strong><ul>${entry.errors.map(e => html`<li>${e}</li>`)}</ul></li>`;
+        }
+        if (!existing) {
+            return html`<li class="import-valid">✓ ${entry.recipe.recipeName}</li>`;
+        }
+        return html`
+            <li class="import-conflict">
+                <span>⚠ "${entry.recipe.recipeName}" existiert bereits.</span>
+                <select class="import-resolution" data-index="${index}" aria-label="Namenskonflikt für ${entry.recipe.recipeName} lösen">
+                    <option value="rename">Umbenennen</option>
+                    <option value="overwrite">Überschreiben</option>
+                    <option value="skip">Überspringen</option>
+                </select>
+            </li>
+        `;
+    });
+    const validCount = pendingImports.filter(p => p.entry.recipe).length;
+    render(importPreview, html`
+        ${fileErrors.map(e => html`<p class="error-message">${e}</p>`)}
+        ${rows.length > 0 && html`<p class="modal-hint">${validCount} von ${rows.length} Rezepten können importiert werden.</p><ul class="import-list">${rows}</ul>`}
+    `);
+    confirmImportBtn.disabled = validCount === 0;
+}
+
+async function confirmImport() {
+    const resolutions = new Map<number, ConflictResolution>();
+    importPreview.querySelectorAll<HTMLSelectElement>('.import-resolution').forEach(select => {
+        resolutions.set(parseInt(select.dataset.index!, 10), select.value as ConflictResolution);
+    });
+
+    confirmImportBtn.disabled = true;
+    const names = (await getSavedRecipes()).map(r => r.recipeName);
+    let imported = 0;
+    const failed: string[] = [];
+    for (const [index, { entry, existing }] of pendingImports.entries()) {
+        if (!entry.recipe) continue;
+        const resolution = existing ? resolutions.get(index) ?? 'rename' : 'rename';
+        if (resolution === 'skip') continue;
+        try {
+            if (resolution === 'overwrite' && existing?.id) {
+                await recipeRepository.updateRecipe(existing.id, { ...entry.recipe, createdAt: entry.recipe.createdAt ?? existing.createdAt }, { source: 'import', note: 'Beim Import überschrieben' });
+            } else {
+                // Also catches two recipes with the same name in one import.
+                const recipeName = findUniqueName(entry.recipe.recipeName, names);
+                await recipeRepository.saveRecipe({ ...entry.recipe, recipeName, createdAt: entry.recipe.createdAt ?? new Date().toISOString() }, { source: 'import' });
+                names.push(recipeName);
+            }
+            imported++;
+        } catch (error) {
+            console.error("Fehler beim Importieren des Rezepts:", error);
+            failed.push(`${entry.label}: ${describeStorageError(error)}`);
+        }
+    }
+
+    await updateSavedCount();
+    await renderSavedRecipes();
+    pendingImports = [];
+    render(importPreview, html`
+        <p class="modal-hint">${imported} Rezept${imported === 1 ? '' : 'e'} importiert.</p>
+        ${failed.map(f => html`<p class="error-message">${f}</p>`)}
+    `);
+}
+
+// --- Class Workspace ---
+function getWorkspaceClient() {
+    return createWorkspaceClient(workspaceSession?.token, getClientId());
+}
+
+function setWorkspaceStatus(message: string, isError = false) {
+    workspaceStatus.textContent = message;
+    workspaceStatus.classList.toggle('error-message', isError);
+}
+
+function describeWorkspaceError(error: unknown): string {
+    if (error instanceof WorkspaceError) {
+        return error.message;
+    }
+    if (!navigator.onLine || error instanceof TypeError) {
+        return 'Der Klassen-Server ist gerade nicht erreichbar. Deine Änderungen werden beim nächsten Synchronisieren übertragen.';
+    }
+    return 'Bei der Verbindung mit der Klasse ist ein Fehler aufgetreten. Bitte versuche es später erneut.';
+}
+
+function updateRecipeLink(recipeId: string, link: RecipeLink | null) {
+    const links = getRecipeLinks().filter(l => l.recipeId !== recipeId);
+    saveRecipeLinks(link ? [...links, link] : links);
+}
+
+function fromGroup(groupRecipe: GroupRecipe): VersionInfo {
+    return { source: 'import', note: `Aus der Klasse, von ${groupRecipe.authorName}` };
+}
+
+function startWorkspaceSession(result: JoinResult) {
+    workspaceSession = {
+        groupId: result.snapshot.group.id,
+        groupName: result.snapshot.group.name,
+        member: result.member,
+        token: result.token,
+    };
+    saveWorkspaceSession(workspaceSession);
+    saveRecipeLinks([]);
+    workspaceSnapshot = result.snapshot;
+    workspaceConflicts = [];
+    setWorkspaceStatus('');
+    renderWorkspace();
+}
+
+async function handleJoinWorkspace(event: Event) {
+    event.preventDefault();
+    if (!ensureOnline()) return;
+    try {
+        startWorkspaceSession(await getWorkspaceClient().joinGroup(joinCodeInput.value, joinNameInput.value));
+        joinWorkspaceForm.reset();
+    } catch (error) {
+        console.error("Fehler beim Beitreten der Klasse:", error);
+        alert(describeWorkspaceError(error));
+    }
+}
+
+async function handleCreateWorkspace(event: Event) {
+    event.preventDefault();
+    if (!ensureOnline()) return;
+    try {
+        startWorkspaceSession(await getWorkspaceClient().createGroup(groupNameInput.value, trainerNameInput.value));
+        createWorkspaceForm.reset();
+    } catch (error) {
+        console.error("Fehler beim Erstellen der Klasse:", error);
+        alert(describeWorkspaceError(error));
+    }
+}
+
+function leaveWorkspace() {
+    if (!workspaceSession) return;
+    if (!confirm(`Möchtest du die Klasse "${workspaceSession.groupName}" auf diesem Gerät verlassen? Deine gespeicherten Rezepte bleiben erhalten, und was du geteilt hast, bleibt in der Klasse.`)) {
+        return;
+    }
+    workspaceSession = null;
+    workspaceSnapshot = null;
+    workspaceConflicts = [];
+    saveWorkspaceSession(null);
+    saveRecipeLinks([]);
+    renderWorkspace();
+    renderSavedRecipes();
+}
+
+/** Sends local changes to the group and takes over changes from there; conflicts wait for the user. */
+async function syncWorkspace() {
+    const session = workspaceSession;
+    if (!session || isSyncingWorkspace) return;
+    if (!navigator.onLine) {
+        setWorkspaceStatus('Du bist offline. Deine Änderungen werden übertragen, sobald du wieder online bist.');
+        return;
+    }
+    isSyncingWorkspace = true;
+    setWorkspaceStatus('Synchronisiere...');
+    const client = getWorkspaceClient();
+    let pulled = false;
+    try {
+        const snapshot = await client.getSnapshot(session.groupId);
+        const conflicts: SyncConflict[] = [];
+        for (const action of planSync(getRecipeLinks(), await getSavedRecipes(), snapshot.recipes)) {
+            const conflict = await applySyncAction(action);
+            if (conflict) conflicts.push(conflict);
+            pulled ||= action.type === 'pull';
+        }
+        workspaceSnapshot = await client.getSnapshot(session.groupId);
+        workspaceConflicts = conflicts;
+        setWorkspaceStatus(`Zuletzt synchronisiert um ${new Date().toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} Uhr.`);
+    } catch (error) {
+        console.error("Fehler beim Synchronisieren der Klasse:", error);
+        setWorkspaceStatus(describeWorkspaceError(error), true);
+    } finally {
+        isSyncingWorkspace = false;
+    }
+    renderWorkspace();
+    if (pulled) {
+        await renderSavedRecipes();
+    }
+}
+
+/** Returns the action as a conflict if the server rejected it as one. */
+async function applySyncAction(action: SyncAction): Promise<SyncConflict | null> {
+    const { groupId } = workspaceSession!;
+    const client = getWorkspaceClient();
+    switch (action.type) {
+        case 'forget':
+            updateRecipeLink(action.link.recipeId, null);
+            return null;
+        case 'publish': {
+            const published = await client.publishRecipe(groupId, action.recipe);
+            updateRecipeLink(action.recipe.id!, createLink(action.recipe, true, published));
+            return null;
+        }
+        case 'push':
+            try {
+                const updated = await client.updateRecipe(groupId, action.groupRecipe.id, action.recipe, action.link.revision);
+                updateRecipeLink(action.recipe.id!, createLink(action.recipe, true, updated));
+                return null;
+            } catch (error) {
+                if (error instanceof WorkspaceError && error.status === 409) {
+                    return { ...action, type: 'conflict', groupRecipe: error.current ?? action.groupRecipe };
+                }
+                if (error instanceof WorkspaceError && error.status === 404) {
+                    return { ...action, type: 'conflict', groupRecipe: null };
+                }
+                throw error;
+            }
+        case 'pull': {
+            const saved = await recipeRepository.updateRecipe(action.recipe.id!, applyGroupRecipe(action.recipe, action.groupRecipe.recipe), fromGroup(action.groupRecipe));
+            updateRecipeLink(saved.id!, createLink(saved, action.link.own, action.groupRecipe));
+            return null;
+        }
+        case 'conflict':
+            return action;
+    }
+}
+
+async function resolveWorkspaceConflict(conflict: SyncConflict, choice: ConflictChoice) {
+    const { link, recipe, groupRecipe } = conflict;
+    const { groupId } = workspaceSession!;
+    if (!ensureOnline()) return;
+    try {
+        if (choice === 'takeGroup') {
+            if (groupRecipe) {
+                const saved = await recipeRepository.updateRecipe(recipe.id!, applyGroupRecipe(recipe, groupRecipe.recipe), fromGroup(groupRecipe));
+                updateRecipeLink(recipe.id!, createLink(saved, link.own, groupRecipe));
+            } else {
+                // The recipe was removed from the class and stays that way.
+                updateRecipeLink(recipe.id!, null);
+            }
+        } else if (choice === 'keepBoth' && groupRecipe) {
+            const names = (await getSavedRecipes()).map(r => r.recipeName);
+            const copy = await recipeRepository.saveRecipe({
+                ...groupRecipe.recipe,
+                recipeName: findUniqueName(groupRecipe.recipe.recipeName, names),
+                createdAt: new Date().toISOString(),
+            }, fromGroup(groupRecipe));
+            // The copy follows the class from now on; the edited recipe becomes a private one.
+            updateRecipeLink(recipe.id!, null);
+            updateRecipeLink(copy.id!, createLink(copy, link.own, groupRecipe));
+        } else if (link.own) {
+            const client = getWorkspaceClient();
+            const published = groupRecipe
+                ? await client.updateRecipe(groupId, groupRecipe.id, recipe, groupRecipe.revision)
+                : await client.publishRecipe(groupId, recipe);
+            updateRecipeLink(recipe.id!, createLink(recipe, true, published));
+        } else {
+            // A copy with own changes simply stops following the class.
+            updateRecipeLink(recipe.id!, null);
+        }
+    } catch (error) {
+        console.error("Fehler beim Lösen des Konflikts:", error);
+        setWorkspaceStatus(describeWorkspaceError(error), true);
+        return;
+    }
+    workspaceConflicts = workspaceConflicts.filter(c => c !== conflict);
+    await updateSavedCount();
+    await renderSavedRecipes();
+    await syncWorkspace();
+}
+
+async function shareRecipeWithGroup(recipe: Recipe) {
+    // Until the server has it, the link has no group id; the next sync publishes it.
+    updateRecipeLink(recipe.id!, createLink(recipe, true));
+    await syncWorkspace();
+    await renderSavedRecipes();
+}
+
+async function copyGroupRecipe(groupRecipe: GroupRecipe) {
+    const saved = await saveRecipeToStorage({ ...groupRecipe.recipe, createdAt: new Date().toISOString() }, fromGroup(groupRecipe));
+    if (!saved) return;
+    updateRecipeLink(saved.id!, createLink(saved, false, groupRecipe));
+    setWorkspaceStatus(`"${saved.recipeName}" ist jetzt in deiner Sammlung.`);
+    renderWorkspace();
+}
+
+/** Runs a trainer or author action and shows its result without a full sync. */
+async function changeGroupRecipe(groupRecipe: GroupRecipe, change: () => Promise<GroupRecipe | null>) {
+    if (!ensureOnline() || !workspaceSnapshot) return;
+    try {
+        const updated = await change();
+        workspaceSnapshot.recipes = updated
+            ? workspaceSnapshot.recipes.map(r => (r.id === updated.id ? updated : r))
+            : workspaceSnapshot.recipes.filter(r => r.id !== groupRecipe.id);
+        setWorkspaceStatus('');
+    } catch (error) {
+        console.error("Fehler beim Ändern des Klassenrezepts:", error);
+        setWorkspaceStatus(describeWorkspaceError(error), true);
+    }
+    renderWorkspace();
+}
+
+function renderWorkspaceConflicts() {
+    render(workspaceConflictsList, html`${workspaceConflicts.map((conflict, index) => html`
+        <div class="workspace-conflict" data-index="${index}">
+            <p>
+                <strong>⚠ ${conflict.recipe.recipeName}</strong>:
+                ${conflict.groupRecipe
+                    ? `Du hast das Rezept geändert, während sich auch die Version in der Klasse geändert hat (zuletzt am ${new Date(conflict.groupRecipe.updatedAt).toLocaleString('de-DE')}).`
+                    : 'Du hast das Rezept geändert, aber es wurde inzwischen aus der Klasse entfernt.'}
+            </p>
+            <div class="modal-actions">
+                ${conflict.groupRecipe ? html`
+                    <button class="requires-online" data-choice="keepMine">${conflict.link.own ? 'Meine Version teilen' : 'Meine Version behalten'}</button>
+                    <button class="secondary-btn requires-online" data-choice="takeGroup">Version der Klasse übernehmen</button>
+                    <button class="secondary-btn requires-online" data-choice="keepBoth">Beide behalten</button>
+                ` : html`
+                    <button class="requires-online" data-choice="keepMine">Erneut teilen</button>
+                    <button class="secondary-btn" data-choice="takeGroup">Nicht mehr teilen</button>
+                `}
+            </div>
+        </div>
+    `)}`);
+    workspaceConflictsList.querySelectorAll<HTMLButtonElement>('button[data-choice]').forEach(button => {
+        const index = parseInt(button.closest<HTMLElement>('.workspace-conflict')!.dataset.index!, 10);
+        button.addEventListener('click', () => resolveWorkspaceConflict(workspaceConflicts[index], button.dataset.choice as ConflictChoice));
+    });
+}
+
+function renderGroupComments(groupRecipe: GroupRecipe): SafeHtml {
+    return html`
+        <details class="group-comments" ${expandedGroupComments.has(groupRecipe.id) && html`open`}>
+            <summary>Kommentare (${groupRecipe.comments.length})</summary>
+            <ul>
+                ${groupRecipe.comments.map(comment => html`
+                    <li>
+                        <strong>${comment.authorName}</strong>
+                        <span class="recipe-meta">${new Date(comment.createdAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                        <p>${comment.text}</p>
+                    </li>
+                `)}
+            </ul>
+            <form class="comment-form">
+                <input type="text" maxlength="1000" placeholder="Kommentar schreiben" aria-label="Kommentar zu ${groupRecipe.recipe.recipeName}" required>
+                <button type="submit" class="requires-online">Senden</button>
+            </form>
+        </details>
+    `;
+}
+
+function renderWorkspace() {
+    const session = workspaceSession;
+    workspaceJoin.classList.toggle('hidden', !!session);
+    workspaceGroup.classList.toggle('hidden', !session);
+    if (!session) return;
+
+    const isTrainer = session.member.role === 'trainer';
+    const snapshot = workspaceSnapshot;
+    render(workspaceInfo, html`
+        <h3>${session.groupName}</h3>
+        <p class="recipe-meta">${session.member.name} · ${isTrainer ? 'Ausbilder/in' : 'Azubi'}${snapshot && ` · ${snapshot.members.length} Mitglieder`}</p>
+        ${snapshot?.group.joinCode && html`<p>Beitrittscode für deine Azubis: <strong class="join-code">${snapshot.group.joinCode}</strong></p>`}
+    `);
+    renderWorkspaceConflicts();
+
+    if (!snapshot) {
+        render(workspaceRecipesList, html`<p class="no-saved-recipes">Noch nicht synchronisiert.</p>`);
+        return;
+    }
+    if (snapshot.recipes.length === 0) {
+        render(workspaceRecipesList, html`<p class="no-saved-recipes">In der Klasse gibt es noch keine Rezepte. Teile eines über „Gespeicherte Rezepte“.</p>`);
+        return;
+    }
+
+    const links = getRecipeLinks();
+    workspaceRecipesList.innerHTML = '';
+    sortGroupRecipes(snapshot.recipes).forEach(groupRecipe => {
+        const { recipe } = groupRecipe;
+        const isAuthor = groupRecipe.authorId === session.member.id;
+        const isInCollection = links.some(l => l.groupRecipeId === groupRecipe.id);
+        const item = document.createElement('div');
+        item.classList.add('group-recipe-item');
+        item.classList.toggle('pinned', groupRecipe.pinned);
+        const facts = formatRecipeFacts(recipe);
+        render(item, html`
+            <div class="group-recipe-header">
+                <h4>${groupRecipe.pinned && '📌 '}${recipe.recipeName}</h4>
+                <span class="group-recipe-status ${groupRecipe.status}">${groupRecipe.status === 'approved' ? 'Freigegeben' : 'Wartet auf Freigabe'}</span>
+            </div>
+            <p class="recipe-meta">von ${groupRecipe.authorName}${isAuthor && ' (du)'}${facts && ` · ${facts}`}</p>
+            <p>${recipe.description}</p>
+            <div class="modal-actions">
+                <button class="view-group-recipe-btn secondary-btn">Ansehen</button>
+                ${isInCollection
+                    ? html`<span class="shared-badge">In deiner Sammlung</span>`
+                    : html`<button class="copy-group-recipe-btn">In meine Sammlung</button>`}
+                ${isTrainer && html`
+                    <button class="approve-group-recipe-btn secondary-btn requires-online">${groupRecipe.status === 'approved' ? 'Freigabe zurückziehen' : 'Freigeben'}</button>
+                    <button class="pin-group-recipe-btn secondary-btn requires-online">${groupRecipe.pinned ? 'Lösen' : 'Anheften'}</button>
+                `}
+                ${(isTrainer || isAuthor) && html`<button class="remove-group-recipe-btn secondary-btn requires-online">Entfernen</button>`}
+            </div>
+            ${renderGroupComments(groupRecipe)}
+        `);
+
+        const client = getWorkspaceClient();
+        item.querySelector('.view-group-recipe-btn')?.addEventListener('click', () => {
+            currentSuggestions = [];
+            renderRecipe({ ...recipe });
+            workspaceModal.classList.add('hidden');
+        });
+        item.querySelector('.copy-group-recipe-btn')?.addEventListener('click', () => copyGroupRecipe(groupRecipe));
+        item.querySelector('.approve-group-recipe-btn')?.addEventListener('click', () => changeGroupRecipe(groupRecipe, () =>
+            client.reviewRecipe(session.groupId, groupRecipe.id, { status: groupRecipe.status === 'approved' ? 'pending' : 'approved' })));
+        item.querySelector('.pin-group-recipe-btn')?.addEventListener('click', () => changeGroupRecipe(groupRecipe, () =>
+            client.reviewRecipe(session.groupId, groupRecipe.id, { pinned: !groupRecipe.pinned })));
+        item.querySelector('.remove-group-recipe-btn')?.addEventListener('click', () => {
+            if (confirm(`Möchtest du "${recipe.recipeName}" aus der Klasse entfernen? Kopien in den Sammlungen bleiben erhalten.`)) {
+                changeGroupRecipe(groupRecipe, () => client.removeRecipe(session.groupId, groupRecipe.id).then(() => null));
+            }
+        });
+        const comments = item.querySelector<HTMLDetailsElement>('.group-comments')!;
+        comments.addEventListener('toggle', () => {
+            if (comments.open) expandedGroupComments.add(groupRecipe.id);
+            else expandedGroupComments.delete(groupRecipe.id);
+        });
+        comments.querySelector('.comment-form')?.addEventListener('submit', (e) => {
+            e.preventDefault();
+            const input = (e.target as HTMLFormElement).querySelector('input')!;
+            const text = input.value.trim();
+            if (text) {
+                changeGroupRecipe(groupRecipe, () => client.addComment(session.groupId, groupRecipe.id, text));
+            }
+        });
+        workspaceRecipesList.appendChild(item);
+    });
+}
+
+// --- Meal Planner ---
+function setPlannerStatus(message: string, isError = false) {
+    plannerStatus.textContent = message;
+    plannerStatus.classList.toggle('hidden', !message);
+    plannerStatus.classList.toggle('error-message', isError);
+}
+
+async function renderMealPlanner() {
+    const plan = getMealPlan();
+    const recipes = await getSavedRecipes();
+
+    if (recipes.length === 0) {
+        render(mealPlannerGrid, html`<p class="no-saved-recipes">Speichere zuerst ein paar Rezepte, um deine Woche zu planen.</p>`);
+        return;
+    }
+
+    const table = document.createElement('table');
+    table.classList.add('meal-planner-table');
+    render(table, html`
+        <thead>
+            <tr>
+                <th></th>
+                ${MEALS.map(meal => html`<th>${meal}</th>`)}
+            </tr>
+        </thead>
+        <tbody></tbody>
+    `);
+    const tbody = table.querySelector('tbody') as HTMLTableSectionElement;
+
+    WEEKDAYS.forEach((dayName, day) => {
+        const row = document.createElement('tr');
+        render(row, html`<th scope="row">${dayName}</th>`);
+        MEALS.forEach(meal => {
+            const slot = findSlot(plan, day, meal);
+            const cell = document.createElement('td');
+            cell.classList.toggle('locked', !!slot?.locked);
+            render(cell, html`
+                <select aria-label="${dayName} ${meal}">
+                    <option value="">–</option>
+                    ${recipes.map(r => html`<option value="${r.id}" ${slot?.recipeId === r.id && html`selected`}>${r.recipeName}</option>`)}
+                </select>
+                <button type="button" class="lock-slot-btn" aria-pressed="${slot?.locked ? 'true' : 'false'}" title="Platz sperren">${slot?.locked ? '🔒' : '🔓'}</button>
+            `);
+
+            cell.querySelector('select')?.addEventListener('change', (e) => {
+                const current = getMealPlan();
+                const target = findSlot(current, day, meal);
+                if (target) {
+                    target.recipeId = (e.target as HTMLSelectElement).value || null;
+                    saveMealPlan(current);
+                }
+            });
+            cell.querySelector('.lock-slot-btn')?.addEventListener('click', () => {
+                const current = getMealPlan();
+                const target = findSlot(current, day, meal);
+                if (target) {
+                    target.locked = !target.locked;
+                    saveMealPlan(current);
+                    renderMealPlanner();
+                }
+            });
+            row.appendChild(cell);
+        });
+        tbody.appendChild(row);
+    });
+
+    mealPlannerGrid.innerHTML = '';
+    mealPlannerGrid.appendChild(table);
+}
+
+async function fillMealPlan(plan: MealPlan) {
+    const recipes = await getSavedRecipes();
+    const openSlots = getOpenSlots(plan);
+    if (openSlots.length > 0 && !navigator.onLine) {
+        setPlannerStatus(OFFLINE_MESSAGE, true);
+        return;
+    }
+    if (recipes.length === 0 || openSlots.length === 0) {
+        saveMealPlan(plan);
+        renderMealPlanner();
+        setPlannerStatus(openSlots.length === 0 ? 'Es gibt keine freien Plätze im Wochenplan.' : '');
+        return;
+    }
+
+    fillPlanBtn.disabled = true;
+    replanWeekBtn.disabled = true;
+    setPlannerStatus('Plane deine Woche...');
+
+    const plannedSlots = plan.slots.filter(s => s.recipeId)
+        .map(s => `- ${WEEKDAYS[s.day]} (${s.day}), ${s.meal}: ${recipes.find(r => r.id === s.recipeId)?.recipeName ?? '–'}`);
+    const prompt = `
+        Du hilfst Lehrlingen, eine Woche mit kleinem Budget zu planen.
+        Verteile die gespeicherten Rezepte auf die freien Plätze im Wochenplan.
+        Wähle die Rezepte so, dass sich möglichst viele Zutaten über die Woche wiederverwenden lassen und wenig übrig bleibt.
+        Ein Rezept darf mehrfach vorkommen (z.B. als Reste am nächsten Tag). Verwende nur die exakten Rezeptnamen aus der Liste.
+        Gib die Antwort als JSON-Objekt zurück, das dem bereitgestellten Schema entspricht.
+
+        Gespeicherte Rezepte:
+        ${recipes.map(r => `- ${r.recipeName}: ${r.ingredients.map(i => i.name).join(', ')}`).join('\n')}
+
+        Bereits geplant:
+        ${plannedSlots.length > 0 ? plannedSlots.join('\n') : 'Nichts'}
+
+        Freie Plätze:
+        ${openSlots.map(s => `- ${WEEKDAYS[s.day]} (${s.day}), ${s.meal}`).join('\n')}
+    `;
+
+    try {
+        const responseText = await recipeGenerator.generate({ schema: 'mealPlan', prompt });
+        const { assignments }: { assignments: PlanAssignment[] } = JSON.parse(responseText);
+        const filledPlan = applyAssignments(plan, assignments, recipes);
+        saveMealPlan(filledPlan);
+        renderMealPlanner();
+        setPlannerStatus('');
+    } catch (error) {
+        console.error("Fehler bei der Wochenplanung:", error);
+        saveMealPlan(plan);
+        renderMealPlanner();
+        setPlannerStatus('Der Wochenplan konnte nicht erstellt werden. Bitte versuche es später erneut.', true);
+    } finally {
+        fillPlanBtn.disabled = false;
+        replanWeekBtn.disabled = false;
+    }
+}
+
+// --- Recipe Refinement ---
+function renderDiffLines(lines: DiffLine[]): SafeHtml[] {
+    return lines.filter(line => line.status !== 'unchanged').map(line => {
+        switch (line.status) {
+            case 'added': return html`<li class="diff-added">+ ${line.after}</li>`;
+            case 'removed': return html`<li class="diff-removed">− ${line.before}</li>`;
+            default: return html`<li class="diff-changed">~ ${line.before} → ${line.after}</li>`;
+        }
+    });
+}
+
+function renderRecipeDiff(before: Recipe, after: Recipe): SafeHtml {
+    const diff = diffRecipes(before, after);
+    if (!hasChanges(diff)) {
+        return html`<p class="diff-empty">Keine Änderungen.</p>`;
+    }
+    const ingredientLines = renderDiffLines(diff.ingredients);
+    const instructionLines = renderDiffLines(diff.instructions);
+    return html`
+        ${diff.fields.length > 0 && html`<ul class="diff-list">${diff.fields.map(f => html`<li class="diff-changed">${f.field}: ${f.before || '–'} → ${f.after || '–'}</li>`)}</ul>`}
+        ${ingredientLines.length > 0 && html`<h4>Zutaten</h4><ul class="diff-list">${ingredientLines}</ul>`}
+        ${instructionLines.length > 0 && html`<h4>Anleitung</h4><ul class="diff-list">${instructionLines}</ul>`}
+    `;
+}
+
+function renderRefinementPanel(): SafeHtml {
+    if (!refinementSession) return html``;
+    const { revisions, index } = refinementSession;
+    const baseIsSaved = !!revisions[0].id;
+    return html`
+        <div id="refinement-panel" class="refinement-panel">
+            <h3>Rezept anpassen</h3>
+            ${index > 0 && html`<div class="refinement-diff">${renderRecipeDiff(revisions[index - 1], revisions[index])}</div>`}
+            <form id="refinement-form" class="inline-form">
+                <input type="text" id="refinement-input" placeholder='z.B. "mach es vegetarisch" oder "weniger Zeit"' aria-label="Anpassungswunsch" required>
+                <button type="submit" id="refinement-submit-btn" class="requires-online">Anpassen</button>
+            </form>
+            ${revisions.length > 1 && html`
+            <div class="refinement-history">
+                <button type="button" id="undo-refinement-btn" class="secondary-btn" ${index === 0 && html`disabled`}>↶ Rückgängig</button>
+                <span>Version ${index + 1} von ${revisions.length}</span>
+                <button type="button" id="redo-refinement-btn" class="secondary-btn" ${index === revisions.length - 1 && html`disabled`}>↷ Wiederholen</button>
+                ${baseIsSaved && index > 0 && html`<button type="button" id="save-refinement-btn">Überarbeitung speichern</button>`}
+            </div>`}
+            <p id="refinement-status" class="hidden" role="status" aria-live="polite"></p>
+        </div>
+    `;
+}
+
+function bindRefinementPanel() {
+    const form = document.getElementById('refinement-form') as HTMLFormElement | null;
+    const input = document.getElementById('refinement-input') as HTMLInputElement | null;
+    const submitBtn = document.getElementById('refinement-submit-btn') as HTMLButtonElement | null;
+    const status = document.getElementById('refinement-status') as HTMLParagraphElement | null;
+    if (!form || !input || !submitBtn || !status || !refinementSession) return;
+    const session = refinementSession;
+
+    const showRevision = (index: number) => {
+        session.index = index;
+        session.history = null;
+        renderRecipe(session.revisions[index]);
+    };
+
+    document.getElementById('undo-refinement-btn')?.addEventListener('click', () => showRevision(session.index - 1));
+    document.getElementById('redo-refinement-btn')?.addEventListener('click', () => showRevision(session.index + 1));
+    document.getElementById('save-refinement-btn')?.addEventListener('click', async () => {
+        const base = session.revisions[0];
+        const current = session.revisions[session.index];
+        const sameName = await recipeRepository.findRecipeByName(current.recipeName);
+        if (sameName && sameName.id !== base.id) {
+            alert("Ein Rezept mit diesem neuen Namen existiert bereits.");
+            return;
+        }
+        const saved = await updateRecipeInStorage(base.id!, current, { source: 'ai', note: 'Mit der KI angepasst' });
+        if (saved) {
+            refinementSession = null;
+            renderRecipe(saved);
+        }
+    });
+
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const instruction = input.value.trim();
+        if (!instruction) return;
+        if (!navigator.onLine) {
+            status.classList.remove('hidden');
+            status.classList.add('error-message');
+            status.textContent = OFFLINE_MESSAGE;
+            return;
+        }
+        const shown = session.revisions[session.index];
+
+        submitBtn.disabled = true;
+        status.classList.remove('hidden', 'error-message');
+        status.textContent = 'Passe das Rezept an...';
+
+        try {
+            // A full conversation starts over from the recipe shown; it already contains every earlier change.
+            if (session.history && session.history.length > MAX_HISTORY_TURNS) {
+                session.history = null;
+            }
+            let message: string;
+            if (!session.history) {
+                // Images stay local; they would only bloat the conversation.
+                const { imageUrl, ...recipeForPrompt } = shown;
+                message = `
+                    Du hilfst Lehrlingen, ein einfaches und günstiges Rezept anzupassen.
+                    Hier ist das aktuelle Rezept als JSON:
+                    ${JSON.stringify(recipeForPrompt)}
+
+                    Passe es so an: "${instruction}"
+                    Ändere nur, was dafür nötig ist, und gib das vollständige, aktualisierte Rezept als JSON-Objekt zurück, das dem Schema entspricht.
+                `;
+            } else {
+                message = `
+                    Passe das Rezept weiter an: "${instruction}"
+                    Gib wieder das vollständige, aktualisierte Rezept als JSON-Objekt zurück.
+                `;
+            }
+
+            const history = session.history ?? [];
+            const responseText = await recipeGenerator.generate({ schema: 'recipe', prompt: message, history });
+            const raw = JSON.parse(responseText);
+            const errors = validateRecipe(raw);
+            if (errors.length > 0) {
+                throw new Error(`Ungültiges Rezept: ${errors.join(' ')}`);
+            }
+            const refined: Recipe = { ...normalizeRecipe(raw), imageUrl: shown.imageUrl, createdAt: shown.createdAt };
+            // Only successful turns are kept, so a failed one doesn't confuse the next message.
+            session.history = [...history, { role: 'user', text: message }, { role: 'model', text: responseText }];
+
+            // A new revision discards everything that could have been redone.
+            session.revisions = [...session.revisions.slice(0, session.index + 1), refined];
+            session.index = session.revisions.length - 1;
+            renderRecipe(refined);
+        } catch (error) {
+            console.error("Fehler bei der Rezeptanpassung:", error);
+            submitBtn.disabled = false;
+            status.classList.add('error-message');
+            status.textContent = 'Das Rezept konnte nicht angepasst werden. Bitte formuliere deinen Wunsch anders oder versuche es später erneut.';
+        }
+    });
+}
+
+
+// --- Recipe History ---
+const VERSION_SOURCE_LABELS: Record<VersionSource, string> = {
+    ai: 'KI',
+    manual: 'Bearbeitet',
+    import: 'Importiert',
+};
+
+function formatVersionDate(createdAt: string): string {
+    return new Date(createdAt).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+async function renderRecipeHistory(recipe: Recipe) {
+    const panel = document.getElementById('recipe-history') as HTMLDivElement | null;
+    if (!panel || !recipe.id) return;
+    let versions: RecipeVersion[];
+    try {
+        versions = await recipeRepository.getVersions(recipe.id);
+    } catch (error) {
+        console.error("Fehler beim Laden des Verlaufs:", error);
+        render(panel, html`<h3>Verlauf</h3><p class="error-message">Der Verlauf konnte nicht geladen werden.</p>`);
+        return;
+    }
+
+    render(panel, html`
+        <h3>Verlauf</h3>
+        ${versions.length === 0
+            ? html`<p class="diff-empty">Noch keine Versionen. Ab der nächsten Änderung wird hier jede Fassung gespeichert.</p>`
+            : html`
+        <ol class="version-list">
+            ${versions.map((version, index) => {
+                const previous = versions[index + 1];
+                return html`
+                <li class="version-item">
+                    <div class="version-header">
+                        <strong>${formatVersionDate(version.createdAt)}</strong>
+                        <span class="version-source ${version.source}">${VERSION_SOURCE_LABELS[version.source]}</span>
+                        ${index === 0 && html`<span class="version-current">Aktuell</span>`}
+                    </div>
+                    ${version.note && html`<p class="version-note">${version.note}</p>`}
+                    <details>
+                        <summary>${previous ? 'Änderungen gegenüber der Version davor' : 'Erste Version'}</summary>
+                        ${previous
+                            ? renderRecipeDiff(previous.recipe, version.recipe)
+                            : html`<p class="diff-empty">${version.recipe.recipeName}: ${version.recipe.ingredients.length} Zutaten, ${version.recipe.instructions.length} Schritte</p>`}
+                    </details>
+                    <div class="version-actions">
+                        ${index > 0 && html`<button type="button" class="secondary-btn restore-version-btn" data-id="${version.id}">Wiederherstellen</button>`}
+                        <button type="button" class="secondary-btn fork-version-btn" data-id="${version.id}">Als neues Rezept</button>
+                    </div>
+                </li>`;
+            })}
+        </ol>`}
+    `);
+
+    const findVersion = (button: HTMLElement) => versions.find(v => v.id === button.dataset.id)!;
+    panel.querySelectorAll<HTMLButtonElement>('.restore-version-btn').forEach(button => {
+        button.addEventListener('click', () => restoreVersion(recipe, findVersion(button)));
+    });
+    panel.querySelectorAll<HTMLButtonElement>('.fork-version-btn').forEach(button => {
+        button.addEventListener('click', () => forkVersion(findVersion(button)));
+    });
+}
+
+async function restoreVersion(recipe: Recipe, version: RecipeVersion) {
+    const date = formatVersionDate(version.createdAt);
+    if (!confirm(`Den Stand vom ${date} wiederherstellen? Die jetzige Fassung bleibt im Verlauf.`)) {
+        return;
+    }
+    const sameName = await recipeRepository.findRecipeByName(version.recipe.recipeName);
+    if (sameName && sameName.id !== recipe.id) {
+        alert("Ein anderes Rezept heißt inzwischen so. Speichere die Version stattdessen als neues Rezept.");
+        return;
+    }
+    // Photo and cooking date aren't versioned and stay as they are.
+    const saved = await updateRecipeInStorage(
+        recipe.id!,
+        { ...version.recipe, id: recipe.id, imageUrl: recipe.imageUrl, lastCookedAt: recipe.lastCookedAt },
+        { source: 'manual', note: `Wiederhergestellt: Stand vom ${date}` },
+    );
+    if (saved) {
+        refinementSession = null;
+        renderRecipe(saved);
+    }
+}
+
+async function forkVersion(version: RecipeVersion) {
+    const saved = await saveRecipeToStorage(
+        { ...version.recipe, createdAt: new Date().toISOString() },
+        { source: 'manual', note: `Abgezweigt von „${version.recipe.recipeName}“, Stand vom ${formatVersionDate(version.createdAt)}` },
+    );
+    if (saved) {
+        await renderSavedRecipes();
+        renderRecipe(saved);
+    }
+}
+
+// --- Pantry ---
+function renderPantry() {
+    const pantry = getPantry();
+    if (pantry.length === 0) {
+        render(pantryList, html`<p class="no-saved-recipes">Dein Vorrat ist leer.</p>`);
+        return;
+    }
+
+    pantryList.innerHTML = '';
+    const ul = document.createElement('ul');
+    ul.classList.add('pantry-list');
+    [...pantry].sort((a, b) => a.name.localeCompare(b.name, 'de')).forEach(item => {
+        const li = document.createElement('li');
+        render(li, html`
+            <span>${formatIngredient(item)}</span>
+            <button type="button" class="delete-btn" aria-label="Aus dem Vorrat entfernen">&times;</button>
+        `);
+        li.querySelector('.delete-btn')?.addEventListener('click', () => {
+            savePantry(getPantry().filter(i => i.id !== item.id));
+            renderPantry();
+        });
+        ul.appendChild(li);
+    });
+    pantryList.appendChild(ul);
+}
+
+function handleAddPantryItem(event: Event) {
+    event.preventDefault();
+    const ingredient = parseIngredient(pantryItemInput.value);
+    if (!ingredient.name) return;
+    savePantry(addToPantry(getPantry(), ingredient));
+    addPantryItemForm.reset();
+    pantryItemInput.focus();
+    renderPantry();
+}
+
+
+// --- Price Table ---
+function renderPriceTable() {
+    const table = getPriceTable();
+    priceTableList.innerHTML = '';
+
+    const element = document.createElement('table');
+    element.classList.add('price-table');
+    render(element, html`
+        <thead>
+            <tr><th>Zutat</th><th>Preis (€)</th><th>Menge</th><th>Einheit</th><th></th></tr>
+        </thead>
+        <tbody></tbody>
+    `);
+    const tbody = element.querySelector('tbody') as HTMLTableSectionElement;
+
+    table.forEach((entry, index) => {
+        const row = document.createElement('tr');
+        render(row, html`
+            <td><input type="text" data-field="name" value="${entry.name}" aria-label="Zutat"></td>
+            <td><input type="number" data-field="price" min="0" step="0.01" value="${entry.price}" aria-label="Preis"></td>
+            <td><input type="number" data-field="quantity" min="0" step="any" value="${entry.quantity}" aria-label="Menge"></td>
+            <td>
+                <select data-field="unit" aria-label="Einheit">
+                    ${['g', 'kg', 'ml', 'l', 'Stück'].map(unit => html`<option value="${unit}" ${entry.unit === unit && html`selected`}>${unit}</option>`)}
+                </select>
+            </td>
+            <td><button type="button" class="delete-btn" aria-label="Preis löschen">&times;</button></td>
+        `);
+
+        row.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-field]').forEach(field => {
+            field.addEventListener('change', () => {
+                const current = getPriceTable();
+                const target = current[index];
+                if (!target) return;
+                const key = field.dataset.field as 'name' | 'price' | 'quantity' | 'unit';
+                if (key === 'price' || key === 'quantity') {
+                    target[key] = parseFloat(field.value) || 0;
+                } else {
+                    target[key] = field.value.trim();
+                }
+                savePriceTable(current);
+            });
+        });
+        row.querySelector('.delete-btn')?.addEventListener('click', () => {
+            const current = getPriceTable();
+            current.splice(index, 1);
+            savePriceTable(current);
+            renderPriceTable();
+        });
+        tbody.appendChild(row);
+    });
+
+    priceTableList.appendChild(element);
+}
+
+// --- Season Calendar ---
+function renderSeasonCalendar() {
+    const calendar = getSeasonalCalendar();
+    const currentMonth = getCurrentMonth();
+    seasonRegionInput.value = calendar.region;
+
+    render(seasonCalendarList, html`
+        <table class="price-table season-table">
+            <thead>
+                <tr>
+                    <th>Zutat</th>
+                    <th>Art</th>
+                    ${MONTH_NAMES.map((name, index) => html`<th class="${index + 1 === currentMonth && 'current-month'}" title="${name}">${name[0]}</th>`)}
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody>
+                ${calendar.entries.map(entry => html`
+                    <tr>
+                        <td><input type="text" data-field="name" value="${entry.name}" aria-label="Zutat"></td>
+                        <td>
+                            <select data-field="category" aria-label="Art">
+                                ${PRODUCE_CATEGORIES.map(category => html`<option value="${category}" ${entry.category === category && html`selected`}>${category}</option>`)}
+                            </select>
+                        </td>
+                        ${MONTH_NAMES.map((name, index) => html`
+                            <td class="${index + 1 === currentMonth && 'current-month'}">
+                                <input type="checkbox" data-month="${index + 1}" ${entry.months.includes(index + 1) && html`checked`} aria-label="${entry.name} im ${name}">
+                            </td>
+                        `)}
+                        <td><button type="button" class="delete-btn" aria-label="Zutat löschen">&times;</button></td>
+                    </tr>
+                `)}
+            </tbody>
+        </table>
+    `);
+
+    seasonCalendarList.querySelectorAll<HTMLTableRowElement>('tbody tr').forEach((row, index) => {
+        const update = (change: (entry: SeasonEntry) => void) => {
+            const current = getSeasonalCalendar();
+            const target = current.entries[index];
+            if (!target) return;
+            change(target);
+            saveSeasonalCalendar(current);
+        };
+        row.querySelector<HTMLInputElement>('[data-field="name"]')?.addEventListener('change', event => {
+            update(entry => entry.name = (event.target as HTMLInputElement).value.trim());
+        });
+        row.querySelector<HTMLSelectElement>('[data-field="category"]')?.addEventListener('change', event => {
+            update(entry => entry.category = (event.target as HTMLSelectElement).value as ProduceCategory);
+        });
+        row.querySelectorAll<HTMLInputElement>('[data-month]').forEach(checkbox => {
+            checkbox.addEventListener('change', () => {
+                const month = parseInt(checkbox.dataset.month!, 10);
+                update(entry => {
+                    entry.months = checkbox.checked
+                        ? [...entry.months.filter(m => m !== month), month].sort((a, b) => a - b)
+                        : entry.months.filter(m => m !== month);
+                });
+            });
+        });
+        row.querySelector('.delete-btn')?.addEventListener('click', () => {
+            const current = getSeasonalCalendar();
+            current.entries.splice(index, 1);
+            saveSeasonalCalendar(current);
+            renderSeasonCalendar();
+        });
+    });
+}
+
+
+// --- Shopping List ---
+function renderShoppingList() {
+    const list = getShoppingList();
+    const hasItems = !!list && list.items.length > 0;
+    [exportShoppingTextBtn, exportShoppingMarkdownBtn, removeCheckedItemsBtn, clearShoppingListBtn].forEach(btn => {
+        btn.disabled = !hasItems;
+    });
+
+    if (!list || !hasItems) {
+        render(shoppingListContent, html`<p class="no-saved-recipes">Deine Einkaufsliste ist leer. Wähle gespeicherte Rezepte oder deinen Wochenplan aus, um sie zu füllen.</p>`);
+        return;
+    }
+
+    shoppingListContent.innerHTML = '';
+    groupBySection(list).forEach(({ section, items }) => {
+        const group = document.createElement('div');
+        group.classList.add('shopping-section');
+        render(group, html`<h3>${section}</h3><ul></ul>`);
+        const ul = group.querySelector('ul') as HTMLUListElement;
+        items.forEach(item => {
+            const li = document.createElement('li');
+            li.classList.toggle('checked', item.checked);
+            render(li, html`
+                <label>
+                    <input type="checkbox" ${item.checked && html`checked`}>
+                    <span>${formatShoppingItem(item)}</span>
+                </label>
+                <small>${item.recipes.join(', ')}</small>
+            `);
+            li.querySelector('input')?.addEventListener('change', (e) => {
+                const current = getShoppingList();
+                const target = current?.items.find(i => i.id === item.id);
+                if (current && target) {
+                    target.checked = (e.target as HTMLInputElement).checked;
+                    saveShoppingList(current);
+                    li.classList.toggle('checked', target.checked);
+                }
+            });
+            ul.appendChild(li);
+        });
+        shoppingListContent.appendChild(group);
+    });
+}
+
+function openShoppingListFor(recipes: Recipe[]) {
+    const existing = getShoppingList();
+    const list = existing ? addRecipesToList(existing, recipes) : createShoppingList(recipes);
+    saveShoppingList(list);
+    renderShoppingList();
+    shoppingListModal.classList.remove('hidden');
+}
+
+
+// --- Main Gemini Function ---
+async function generateRecipe(event: Event) {
+    event.preventDefault();
+    if (!ensureOnline()) return;
+    const pantry = getPantry();
+    const usePantry = usePantryCheckbox.checked;
+    if (usePantry && pantry.length === 0) {
+        alert("Dein Vorrat ist leer. Füge zuerst Zutaten hinzu, die du zu Hause hast.");
+        return;
+    }
+    if (!usePantry && !promptInput.value.trim()) {
+        alert("Bitte gib ein, was du kochen möchtest.");
+        return;
+    }
+    setLoading(true);
+    renderError('');
+    currentSuggestions = [];
+    renderRecipe(null);
+
+    const budget = parseFloat(budgetInput.value);
+    const hasBudget = Number.isFinite(budget) && budget > 0;
+    currentBudget = hasBudget ? budget : null;
+    currentAllergenExclusions = getAllergenExclusions();
+    const excludedLabels = currentAllergenExclusions.map(id => getAllergen(id)!.label);
+    const suggestionCount = parseInt(suggestionCountSelect.value, 10) || 1;
+    const month = getCurrentMonth();
+    const seasonalCalendar = getSeasonalCalendar();
+    const seasonalNames = getSeasonalProduce(seasonalCalendar, month).map(entry => entry.name);
+    const offSeasonNames = seasonalCalendar.entries.filter(entry => entry.name && !seasonalNames.includes(entry.name)).map(entry => entry.name);
+
+    const prompt = `
+        ${suggestionCount > 1
+            ? `Erstelle ${suggestionCount} deutlich unterschiedliche, einfache und günstige Rezepte für Lehrlinge basierend auf den folgenden Angaben.
+        Gib die Antwort als JSON-Objekt mit einer Liste von Rezepten zurück, das dem bereitgestellten Schema entspricht. Gib keinen Markdown oder zusätzlichen Text aus.`
+            : `Erstelle ein einfaches und günstiges Rezept für Lehrlinge basierend auf den folgenden Angaben.
+        Gib die Antwort als einzelnes JSON-Objekt zurück, das dem bereitgestellten Schema entspricht. Gib keinen Markdown oder zusätzlichen Text aus.`}
+
+        Gericht: "${promptInput.value || 'Egal, Hauptsache es passt zum Vorrat'}"
+        Schwierigkeitsgrad: "${difficultySelect.value}"
+        Zusätzliche Wünsche: "${wishesInput.value || 'Keine'}"
+        Budget: ${hasBudget ? `maximal ${budget.toFixed(2)} € pro Portion. Wähle Zutaten und Mengen so, dass das Budget sicher eingehalten wird` : 'Kein festes Budget, aber so günstig wie möglich'}
+        Aktueller Monat: ${getMonthName(month)}, Region: ${seasonalCalendar.region || 'Deutschland'}
+        ${preferSeasonalCheckbox.checked ? `Bevorzuge Obst und Gemüse, das gerade aus der Region Saison hat, weil es dann am günstigsten ist: ${seasonalNames.join(', ')}.
+        Vermeide frisches Obst und Gemüse ohne Saison${offSeasonNames.length > 0 ? `, z.B. ${offSeasonNames.join(', ')}` : ''}. Konserven und Tiefkühlware sind erlaubt.` : ''}
+        Schätze die Kosten pro Portion anhand typischer Discounter-Preise in Deutschland.
+        Schätze die Nährwerte pro Portion und gib alle enthaltenen EU-Hauptallergene an.
+        ${excludedLabels.length > 0 ? `Das Rezept darf auf keinen Fall diese Allergene enthalten, auch nicht in Spuren oder versteckt in Fertigprodukten: ${excludedLabels.join(', ')}.` : ''}
+        ${usePantry ? `
+        Verwende hauptsächlich Zutaten aus diesem Vorrat und kaufe möglichst wenig dazu.
+        Salz, Pfeffer, Öl und Wasser sind immer vorhanden.
+        Vorrat:
+        ${pantry.filter(i => !isBasicStaple(i.name)).map(i => `- ${formatIngredient(i)}`).join('\n')}
+        ` : ''}
+    `;
+
+    generationController?.abort();
+    const controller = new AbortController();
+    generationController = controller;
+
+    try {
+        const responseText = await withRetry(async (signal) => {
+            const request: GenerateRequest = { schema: suggestionCount > 1 ? 'recipeList' : 'recipe', prompt };
+            // Several alternatives are shown side by side only once all of them are there.
+            if (suggestionCount > 1) {
+                return recipeGenerator.generate(request, signal);
+            }
+            let text = '';
+            for await (const chunk of recipeGenerator.generateStream(request, signal)) {
+                text += chunk;
+                renderStreamingRecipe(parsePartialRecipe(text));
+            }
+            return text.trim();
+        }, {
+            ...DEFAULT_RETRY_OPTIONS,
+            signal: controller.signal,
+            onRetry: (attempt, error) => {
+                renderRecipe(null);
+                recipeOutput.style.opacity = '0.5';
+                loadingText.textContent = `${error.message} Neuer Versuch (${attempt} von ${DEFAULT_RETRY_OPTIONS.retries})...`;
+            },
+        });
+
+        if (suggestionCount > 1) {
+            const { recipes }: { recipes: unknown[] } = JSON.parse(responseText);
+            if (!Array.isArray(recipes) || recipes.some(r => validateRecipe(r).length > 0)) {
+                throw new GenerationError('invalidResponse', 'Mindestens ein Vorschlag ist kein gültiges Rezept.');
+            }
+            currentSuggestions = recipes.map(withGenerationMeta);
+            renderRecipeSuggestions(currentSuggestions);
+            return;
+        }
+        const raw = JSON.parse(responseText);
+        const errors = validateRecipe(raw);
+        if (errors.length > 0) {
+            throw new GenerationError('invalidResponse', errors.join(' '));
+        }
+        const recipe = withGenerationMeta(raw);
+        renderRecipe(recipe);
+        if (hasBudget) {
+            renderBudgetCheck(recipe, budget);
+        }
+        renderAllergenCheck(recipe, currentAllergenExclusions);
+    } catch (error) {
+        const generationError = classifyError(error, controller.signal);
+        if (generationError.kind !== 'aborted') {
+            console.error("Fehler bei der Rezeptgenerierung:", error);
+        }
+        renderError(describeGenerationError(generationError));
+    } finally {
+        // A newer request may have taken over in the meantime.
+        if (generationController === controller) {
+            generationController = null;
+            setLoading(false);
+        }
+    }
+}
+
+// The model doesn't know when it was asked; the difficulty falls back to what the user chose.
+function withGenerationMeta(raw: unknown): Recipe {
+    const recipe = normalizeRecipe(raw);
+    return { ...recipe, difficulty: recipe.difficulty || difficultySelect.value, createdAt: new Date().toISOString() };
+}
+
+// --- Add Manual Recipe ---
+async function handleAddRecipe(event: Event) {
+    event.preventDefault();
+
+    const entered = addRecipeEditor.getRecipe();
+    if (!entered) {
+        alert("Bitte fülle alle erforderlichen Felder aus.");
+        return;
+    }
+    const imageFile = addRecipeEditor.getImageFile();
+    const newRecipe: Recipe = {
+        ...entered,
+        createdAt: new Date().toISOString(),
+        // Only used to hand the file to the repository, which stores it as a Blob.
+        imageUrl: imageFile ? URL.createObjectURL(imageFile) : undefined,
+    };
+
+    const saved = await saveRecipeToStorage(newRecipe, { source: addRecipeSource });
+    if (newRecipe.imageUrl) {
+        URL.revokeObjectURL(newRecipe.imageUrl);
+    }
+    if (!saved) return;
+    resetAddRecipeModal();
+    addRecipeModal.classList.add('hidden');
+    renderSavedRecipes();
+}
+
+function resetAddRecipeModal() {
+    addRecipeImportController?.abort();
+    addRecipeForm.reset();
+    addRecipeEditor.setRecipe(null);
+    addRecipeSource = 'manual';
+    addRecipeImportText.value = '';
+    addRecipeImportImage.value = '';
+    addRecipeImportStatus.classList.add('hidden');
+    addRecipeImportDetails.open = false;
+}
+
+function setAddRecipeImportStatus(message: string, isError = false) {
+    addRecipeImportStatus.textContent = message;
+    addRecipeImportStatus.classList.toggle('hidden', !message);
+    addRecipeImportStatus.classList.toggle('error-message', isError);
+}
+
+function fillAddRecipeForm(recipe: Recipe) {
+    addRecipeEditor.setRecipe(recipe);
+    addRecipeSource = 'import';
+}
+
+/** Lets Gemini read a pasted or photographed recipe and puts the result into the form for review. */
+async function handleImportIntoAddForm() {
+    const text = addRecipeImportText.value.trim();
+    const imageFile = addRecipeImportImage.files?.[0];
+    if (!text && !imageFile) {
+        setAddRecipeImportStatus('Füge einen Text ein oder wähle ein Foto aus.', true);
+        return;
+    }
+    if (!navigator.onLine) {
+        setAddRecipeImportStatus(OFFLINE_MESSAGE, true);
+        return;
+    }
+
+    const prompt = `
+        Lies das folgende Rezept${imageFile ? ' auf dem Foto (es kann handschriftlich sein)' : ''} und übertrage es in das bereitgestellte JSON-Schema.
+        Übernimm Zutaten, Mengen und Schritte so genau wie möglich und erfinde keine Zutaten dazu.
+        Schreibe auf Deutsch. Fehlen Angaben wie Portionen, Zeit oder Schwierigkeitsgrad, schätze sie sinnvoll.
+        ${text ? `Rezepttext:\n${text}` : ''}
+    `;
+
+    addRecipeImportController?.abort();
+    const controller = new AbortController();
+    addRecipeImportController = controller;
+    addRecipeImportBtn.disabled = true;
+    setAddRecipeImportStatus(imageFile ? 'Lese das Foto...' : 'Lese den Text...');
+
+    try {
+        let image: InlineImage | undefined;
+        if (imageFile) {
+            const dataUrl = await readBlobAsDataURL(imageFile);
+            image = { mimeType: imageFile.type || 'image/jpeg', data: dataUrl.split(',')[1] };
+        }
+        const responseText = await withRetry(
+            signal => recipeGenerator.generate({ schema: 'recipe', prompt, image }, signal),
+            { ...DEFAULT_RETRY_OPTIONS, signal: controller.signal },
+        );
+
+        const raw = JSON.parse(responseText);
+        const errors = validateRecipe(raw);
+        if (errors.length > 0) {
+            throw new GenerationError('invalidResponse', errors.join(' '));
+        }
+        fillAddRecipeForm(normalizeRecipe(raw));
+        setAddRecipeImportStatus('Das Formular wurde ausgefüllt. Bitte prüfe alles vor dem Speichern.');
+    } catch (error) {
+        const generationError = classifyError(error, controller.signal);
+        if (generationError.kind === 'aborted') return;
+        console.error("Fehler beim Importieren des Rezepts:", error);
+        setAddRecipeImportStatus(
+            generationError.kind === 'invalidResponse'
+                ? 'Das Rezept konnte nicht erkannt werden. Versuche es mit einem deutlicheren Foto oder Text.'
+                : describeGenerationError(generationError),
+            true,
+        );
+    } finally {
+        if (addRecipeImportController === controller) {
+            addRecipeImportController = null;
+            addRecipeImportBtn.disabled = false;
+        }
+    }
+}
+
+// --- Theme Toggle ---
+function toggleTheme(event: Event) {
+    const target = event.target as HTMLInputElement;
+    if (target.checked) {
+        document.body.classList.add('dark-theme');
+        localStorage.setItem('theme', 'dark');
+    } else {
+        document.body.classList.remove('dark-theme');
+        localStorage.setItem('theme', 'light');
+    }
+}
+
+
+// --- Event Listeners ---
+function initializeApp() {
+    recipeForm.addEventListener('submit', generateRecipe);
+    cancelGenerationBtn.addEventListener('click', () => generationController?.abort());
+
+    // Modal Toggles
+    viewSavedBtn.addEventListener('click', () => {
+        renderSavedRecipes();
+        savedRecipesModal.classList.remove('hidden');
+    });
+    closeModalBtn.addEventListener('click', () => savedRecipesModal.classList.add('hidden'));
+    savedSearchInput.addEventListener('input', updateSavedRecipesQuery);
+    exportAllRecipesBtn.addEventListener('click', async () => {
+        const recipes = await getSavedRecipes();
+        if (recipes.length === 0) {
+            alert('Du hast noch keine Rezepte gespeichert.');
+            return;
+        }
+        openExportModal(recipes);
+    });
+    importRecipesBtn.addEventListener('click', openImportModal);
+    closeExportModalBtn.addEventListener('click', () => exportModal.classList.add('hidden'));
+    exportFormatSelect.addEventListener('change', () => {
+        exportImagesCheckbox.disabled = exportFormatSelect.value !== 'json';
+    });
+    downloadExportBtn.addEventListener('click', downloadExport);
+    closeImportModalBtn.addEventListener('click', () => importModal.classList.add('hidden'));
+    checkImportBtn.addEventListener('click', checkImport);
+    confirmImportBtn.addEventListener('click', confirmImport);
+    [savedDifficultyFilter, savedTagFilter, savedSortSelect].forEach(control => control.addEventListener('change', updateSavedRecipesQuery));
+
+    browseRecipesBtn.addEventListener('click', () => {
+        renderBrowseRecipes();
+        browseRecipesModal.classList.remove('hidden');
+    });
+    closeBrowseModalBtn.addEventListener('click', () => browseRecipesModal.classList.add('hidden'));
+
+    mealPlannerBtn.addEventListener('click', () => {
+        setPlannerStatus('');
+        renderMealPlanner();
+        mealPlannerModal.classList.remove('hidden');
+    });
+    closePlannerModalBtn.addEventListener('click', () => mealPlannerModal.classList.add('hidden'));
+    planShoppingListBtn.addEventListener('click', async () => {
+        const recipes = await getSavedRecipes();
+        const plannedRecipes = getMealPlan().slots
+            .map(slot => recipes.find(r => r.id === slot.recipeId))
+            .filter((r): r is Recipe => !!r);
+        if (plannedRecipes.length === 0) {
+            setPlannerStatus('Dein Wochenplan enthält noch keine Rezepte.');
+            return;
+        }
+        mealPlannerModal.classList.add('hidden');
+        openShoppingListFor(plannedRecipes);
+    });
+    fillPlanBtn.addEventListener('click', () => fillMealPlan(getMealPlan()));
+    replanWeekBtn.addEventListener('click', () => fillMealPlan(clearUnlockedSlots(getMealPlan())));
+    clearPlanBtn.addEventListener('click', () => {
+        if (confirm('Möchtest du den Wochenplan wirklich leeren?')) {
+            saveMealPlan(createEmptyPlan());
+            renderMealPlanner();
+        }
+    });
+
+    createShoppingListBtn.addEventListener('click', async () => {
+        const recipes = (await getSavedRecipes()).filter(r => selectedRecipeIds.has(r.id!));
+        selectedRecipeIds.clear();
+        savedRecipesModal.classList.add('hidden');
+        openShoppingListFor(recipes);
+    });
+
+    shoppingListBtn.addEventListener('click', () => {
+        renderShoppingList();
+        shoppingListModal.classList.remove('hidden');
+    });
+    closeShoppingModalBtn.addEventListener('click', () => shoppingListModal.classList.add('hidden'));
+    exportShoppingTextBtn.addEventListener('click', () => {
+        const list = getShoppingList();
+        if (list) downloadTextFile('einkaufsliste.txt', exportAsText(list), 'text/plain');
+    });
+    exportShoppingMarkdownBtn.addEventListener('click', () => {
+        const list = getShoppingList();
+        if (list) downloadTextFile('einkaufsliste.md', exportAsMarkdown(list), 'text/markdown');
+    });
+    removeCheckedItemsBtn.addEventListener('click', () => {
+        const list = getShoppingList();
+        if (list) {
+            saveShoppingList({ ...list, items: list.items.filter(item => !item.checked) });
+            renderShoppingList();
+        }
+    });
+    clearShoppingListBtn.addEventListener('click', () => {
+        if (confirm('Möchtest du die Einkaufsliste wirklich leeren?')) {
+            saveShoppingList(null);
+            renderShoppingList();
+        }
+    });
+
+    priceTableBtn.addEventListener('click', () => {
+        renderPriceTable();
+        priceTableModal.classList.remove('hidden');
+    });
+    closePriceModalBtn.addEventListener('click', () => {
+        priceTableModal.classList.add('hidden');
+        // Prices affect the estimate on the open recipe card.
+        if (currentRecipe) renderRecipe(currentRecipe);
+    });
+    addPriceEntryBtn.addEventListener('click', () => {
+        savePriceTable([...getPriceTable(), { name: '', price: 0, quantity: 1, unit: 'Stück' }]);
+        renderPriceTable();
+        (priceTableList.querySelector('tbody tr:last-child input') as HTMLInputElement | null)?.focus();
+    });
+    resetPriceTableBtn.addEventListener('click', () => {
+        if (confirm('Möchtest du alle eigenen Preise verwerfen und die Standardpreise wiederherstellen?')) {
+            resetPriceTable();
+            renderPriceTable();
+        }
+    });
+
+    seasonCalendarBtn.addEventListener('click', () => {
+        renderSeasonCalendar();
+        seasonCalendarModal.classList.remove('hidden');
+    });
+    closeSeasonModalBtn.addEventListener('click', () => {
+        seasonCalendarModal.classList.add('hidden');
+        // The calendar decides which ingredients the open recipe card marks.
+        if (currentRecipe) renderRecipe(currentRecipe);
+    });
+    seasonRegionInput.addEventListener('change', () => {
+        saveSeasonalCalendar({ ...getSeasonalCalendar(), region: seasonRegionInput.value.trim() });
+    });
+    addSeasonEntryBtn.addEventListener('click', () => {
+        const calendar = getSeasonalCalendar();
+        saveSeasonalCalendar({ ...calendar, entries: [...calendar.entries, { name: '', category: 'Gemüse', months: [] }] });
+        renderSeasonCalendar();
+        (seasonCalendarList.querySelector('tbody tr:last-child input') as HTMLInputElement | null)?.focus();
+    });
+    resetSeasonCalendarBtn.addEventListener('click', () => {
+        if (confirm('Möchtest du deinen Saisonkalender verwerfen und den Standardkalender für Deutschland wiederherstellen?')) {
+            resetSeasonalCalendar();
+            renderSeasonCalendar();
+        }
+    });
+
+    pantryBtn.addEventListener('click', () => {
+        renderPantry();
+        pantryModal.classList.remove('hidden');
+    });
+    closePantryModalBtn.addEventListener('click', () => {
+        pantryModal.classList.add('hidden');
+        if (currentRecipe) renderRecipe(currentRecipe);
+    });
+    addPantryItemForm.addEventListener('submit', handleAddPantryItem);
+
+    closeCookedModalBtn.addEventListener('click', () => cookedModal.classList.add('hidden'));
+    cookedForm.addEventListener('submit', handleCookedSubmit);
+    usePantryCheckbox.addEventListener('change', () => {
+        promptInput.required = !usePantryCheckbox.checked;
+    });
+
+    addRecipeBtn.addEventListener('click', () => addRecipeModal.classList.remove('hidden'));
+    closeAddModalBtn.addEventListener('click', () => {
+        addRecipeImportController?.abort();
+        addRecipeModal.classList.add('hidden');
+    });
+    addRecipeImportBtn.addEventListener('click', handleImportIntoAddForm);
+
+    // Class Workspace
+    workspaceBtn.addEventListener('click', () => {
+        renderWorkspace();
+        workspaceModal.classList.remove('hidden');
+        syncWorkspace();
+    });
+    closeWorkspaceModalBtn.addEventListener('click', () => workspaceModal.classList.add('hidden'));
+    joinWorkspaceForm.addEventListener('submit', handleJoinWorkspace);
+    createWorkspaceForm.addEventListener('submit', handleCreateWorkspace);
+    syncWorkspaceBtn.addEventListener('click', syncWorkspace);
+    leaveWorkspaceBtn.addEventListener('click', leaveWorkspace);
+
+    // Cook Mode
+    closeCookModeBtn.addEventListener('click', closeCookMode);
+    cookModePrevBtn.addEventListener('click', () => goToCookModeStep((cookModeSession?.step ?? 0) - 1));
+    cookModeNextBtn.addEventListener('click', () => goToCookModeStep((cookModeSession?.step ?? 0) + 1));
+    document.addEventListener('keydown', handleCookModeKeydown);
+    cookMode.addEventListener('touchstart', (e) => {
+        cookModeTouchStartX = e.touches[0].clientX;
+    }, { passive: true });
+    cookMode.addEventListener('touchend', (e) => {
+        if (cookModeTouchStartX === null || !cookModeSession) return;
+        const deltaX = e.changedTouches[0].clientX - cookModeTouchStartX;
+        cookModeTouchStartX = null;
+        if (Math.abs(deltaX) < 60) return;
+        goToCookModeStep(cookModeSession.step + (deltaX < 0 ? 1 : -1));
+    });
+    // The browser drops the wake lock when the tab is hidden; take it again on return.
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible' && cookModeSession && !wakeLock) {
+            requestWakeLock();
+        }
+    });
+
+    // Close modals on overlay click
+    [savedRecipesModal, browseRecipesModal, mealPlannerModal, shoppingListModal, priceTableModal, seasonCalendarModal, pantryModal, cookedModal, addRecipeModal, exportModal, importModal, workspaceModal].forEach(modal => {
+        modal.addEventListener('click', (e) => {
+            if (e.target === modal) {
+                modal.classList.add('hidden');
+            }
+        });
+    });
+
+    addRecipeForm.addEventListener('submit', handleAddRecipe);
 
     // Theme
     themeToggle.addEventListener('change', toggleTheme);
@@ -509,8 +2811,24 @@ function initializeApp() {
         themeToggle.checked = true;
     }
 
+    // Offline
+    window.addEventListener('online', updateOnlineState);
+    // Changes made offline, e.g. recipes shared on the train, go out once the connection is back.
+    window.addEventListener('online', syncWorkspace);
+    window.addEventListener('offline', updateOnlineState);
+    updateOnlineState();
+    registerServiceWorker();
+
     // Initial State
-    updateSavedCount();
+    renderAllergenExclusions();
+    // The first read also moves recipes over from localStorage; the plan can only switch to ids afterwards.
+    getSavedRecipes()
+        .then(recipes => {
+            migratePlanToRecipeIds(recipes);
+            syncWorkspace();
+            return updateSavedCount();
+        })
+        .catch(error => console.error("Fehler beim Laden der gespeicherten Rezepte:", error));
 }
 
 // --- App Initialization ---
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { formatIngredient, normalizeRecipe, parseIngredient } from './ingredients';
+
+describe('parseIngredient', () => {
+    it.each([
+        ['200 g Nudeln', { amount: 200, unit: 'g', name: 'Nudeln' }],
+        ['1/2 TL Salz', { amount: 0.5, unit: 'TL', name: 'Salz' }],
+        ['1 1/2 kg Kartoffeln', { amount: 1.5, unit: 'kg', name: 'Kartoffeln' }],
+        ['1½ EL Öl', { amount: 1.5, unit: 'EL', name: 'Öl' }],
+        ['0,5 l Milch', { amount: 0.5, unit: 'l', name: 'Milch' }],
+        ['eine Prise Pfeffer', { amount: 1, unit: 'Prise', name: 'Pfeffer' }],
+        ['- 3 Eier', { amount: 3, unit: '', name: 'Eier' }],
+        ['Salz und Pfeffer', { amount: null, unit: '', name: 'Salz und Pfeffer' }],
+    ])('reads "%s"', (line, expected) => {
+        expect(parseIngredient(line)).toEqual(expected);
+    });
+
+    it.each([
+        ['ca. 200 g Reis', { amount: 200, unit: 'g', name: 'Reis' }],
+        ['etwa 2 EL Zucker', { amount: 2, unit: 'EL', name: 'Zucker' }],
+        ['Cashewkerne', { amount: null, unit: '', name: 'Cashewkerne' }],
+    ])('reads the amount of "%s" without the approximation', (line, expected) => {
+        expect(parseIngredient(line)).toEqual(expected);
+    });
+
+    it.each(['2-3 Zwiebeln', '2 – 3 Zwiebeln', '2 bis 3 Zwiebeln', 'ca. 1-2 TL Chili', '½-1 Bund Petersilie'])(
+        'keeps the range in "%s" as free text',
+        line => {
+            expect(parseIngredient(line)).toEqual({ amount: null, unit: '', name: line });
+        },
+    );
+
+    it('doesn\'t turn a range into a scalable amount', () => {
+        expect(formatIngredient(parseIngredient('2-3 Zwiebeln'), 0.5)).toBe('2-3 Zwiebeln');
+    });
+});
+
+describe('normalizeRecipe', () => {
+    it('migrates the ingredient lines of old recipes', () => {
+        const recipe = normalizeRecipe({
+            recipeName: 'Gemüsepfanne',
+            description: '',
+            ingredients: ['ca. 200 g Reis', '2-3 Zwiebeln', '1 Paprika', 'Salz'],
+            instructions: ['Braten.'],
+        });
+
+        expect(recipe.ingredients).toEqual([
+            { amount: 200, unit: 'g', name: 'Reis' },
+            { amount: null, unit: '', name: '2-3 Zwiebeln' },
+            { amount: 1, unit: '', name: 'Paprika' },
+            { amount: null, unit: '', name: 'Salz' },
+        ]);
+    });
+
+    it('keeps structured ingredients and drops fields of the wrong type', () => {
+        const recipe = normalizeRecipe({
+            recipeName: 'Rührei',
+            servings: '2',
+            ingredients: [{ amount: 4, unit: 'stk', name: ' Eier ' }, { amount: 'viel', name: 'Butter' }],
+            instructions: ['Braten.', 42],
+            tags: 'schnell',
+        });
+
+        expect(recipe).toEqual({
+            recipeName: 'Rührei',
+            description: '',
+            servings: 2,
+            ingredients: [{ amount: 4, unit: 'Stück', name: 'Eier' }, { amount: null, unit: '', name: 'Butter' }],
+            instructions: ['Braten.'],
+            tags: ['schnell'],
+        });
+    });
+});
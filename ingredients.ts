@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Ingredient, Nutrition, Recipe } from './types';
+import { normalizeTags } from './recipeSearch';
+import { isRecord } from './recipeValidation';
+
+export const DEFAULT_SERVINGS = 4;
+
+// Canonical unit -> accepted spellings (lowercase, without trailing dot).
+const UNIT_ALIASES: Record<string, string[]> = {
+    'g': ['g', 'gr', 'gramm'],
+    'kg': ['kg', 'kilo', 'kilogramm'],
+    'ml': ['ml', 'milliliter'],
+    'l': ['l', 'liter'],
+    'EL': ['el', 'essl', 'esslöffel'],
+    'TL': ['tl', 'teel', 'teelöffel'],
+    'Prise': ['prise', 'prisen'],
+    'Stück': ['stück', 'stk', 'st'],
+};
+
+const UNIT_LOOKUP = new Map<string, string>(
+    Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit] as [string, string]))
+);
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+    '½': 0.5,
+    '¼': 0.25,
+    '¾': 0.75,
+    '⅓': 1 / 3,
+    '⅔': 2 / 3,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+    'ein': 1,
+    'eine': 1,
+    'einen': 1,
+    'zwei': 2,
+    'drei': 3,
+    'vier': 4,
+    'halbe': 0.5,
+    'halben': 0.5,
+};
+
+// "1", "0,5", "1.5", "1/2", "1 1/2", "½", "1½"
+const AMOUNT_PATTERN = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*[½¼¾⅓⅔]|\d+(?:[.,]\d+)?)/;
+
+// "ca. 200 g" is read as 200 g.
+const APPROXIMATE_PATTERN = /^(?:ca\.?|circa|etwa|ungefähr|~)\s*(?=[\d½¼¾⅓⅔])/i;
+
+// "2-3", "2 – 3" or "2 bis 3": one amount would be made up, so the line stays free text.
+const RANGE_PATTERN = /^[\d½¼¾⅓⅔][\d½¼¾⅓⅔.,/\s]*?(?:-|–|bis\s)\s*[\d½¼¾⅓⅔]/i;
+
+function parseAmount(raw: string): number | null {
+    const text = raw.trim();
+    const fraction = text.match(/[½¼¾⅓⅔]$/);
+    if (fraction) {
+        const whole = text.slice(0, -1);
+        return (whole ? parseInt(whole, 10) : 0) + UNICODE_FRACTIONS[fraction[0]];
+    }
+    const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+    if (mixed) {
+        return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+    }
+    const simpleFraction = text.match(/^(\d+)\/(\d+)$/);
+    if (simpleFraction) {
+        const denominator = parseInt(simpleFraction[2], 10);
+        return denominator ? parseInt(simpleFraction[1], 10) / denominator : null;
+    }
+    const value = parseFloat(text.replace(',', '.'));
+    return Number.isFinite(value) ? value : null;
+}
+
+export function normalizeUnit(raw: string): string | null {
+    return UNIT_LOOKUP.get(raw.trim().toLowerCase().replace(/\.$/, '')) ?? null;
+}
+
+/**
+ * Parses a free-text ingredient line such as "200 g Nudeln", "1/2 TL Salz"
+ * or "eine Prise Pfeffer". Lines without a recognisable amount, or with a
+ * range like "2-3 Zwiebeln", are kept as the ingredient name so nothing the
+ * user typed gets lost.
+ */
+export function parseIngredient(line: string): Ingredient {
+    let rest = line.trim().replace(/^[-•*]\s*/, '');
+    let amount: number | null = null;
+    if (RANGE_PATTERN.test(rest.replace(APPROXIMATE_PATTERN, ''))) {
+        return { amount, unit: '', name: rest };
+    }
+    rest = rest.replace(APPROXIMATE_PATTERN, '');
+
+    const amountMatch = rest.match(AMOUNT_PATTERN);
+    if (amountMatch) {
+        amount = parseAmount(amountMatch[1]);
+        rest = rest.slice(amountMatch[0].length).trim();
+    } else {
+        const word = rest.match(/^(\S+)\s+/);
+        if (word && NUMBER_WORDS[word[1].toLowerCase()] !== undefined) {
+            amount = NUMBER_WORDS[word[1].toLowerCase()];
+            rest = rest.slice(word[0].length);
+        }
+    }
+
+    let unit = '';
+    const unitMatch = rest.match(/^(\S+?)\.?(?:\s+|$)/);
+    if (unitMatch) {
+        const candidate = normalizeUnit(unitMatch[1]);
+        // Only treat the word as a unit if something is left to be the name.
+        if (candidate && rest.slice(unitMatch[0].length).trim()) {
+            unit = candidate;
+            rest = rest.slice(unitMatch[0].length);
+        }
+    }
+
+    return { amount, unit, name: rest.trim() };
+}
+
+export function parseIngredientLines(text: string): Ingredient[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line).map(parseIngredient);
+}
+
+const BASE_UNITS: Record<string, { unit: string; factor: number }> = {
+    'kg': { unit: 'g', factor: 1000 },
+    'l': { unit: 'ml', factor: 1000 },
+};
+
+/** Converts kg and l to g and ml so amounts of the same kind can be added up. */
+export function toBaseUnit(ingredient: Pick<Ingredient, 'amount' | 'unit'>): { amount: number | null; unit: string } {
+    const base = BASE_UNITS[ingredient.unit];
+    if (base && ingredient.amount !== null) {
+        return { amount: ingredient.amount * base.factor, unit: base.unit };
+    }
+    return { amount: ingredient.amount, unit: ingredient.unit };
+}
+
+export function formatAmount(amount: number, unit: string): string {
+    // Weights and volumes in g/ml don't need decimals; everything else is rounded to quarters.
+    const rounded = unit === 'g' || unit === 'ml'
+        ? Math.round(amount)
+        : Math.round(amount * 4) / 4;
+    return (rounded || amount).toLocaleString('de-DE', { maximumFractionDigits: 2 });
+}
+
+export function formatIngredient(ingredient: Ingredient, factor = 1): string {
+    const parts: string[] = [];
+    if (ingredient.amount !== null) {
+        parts.push(formatAmount(ingredient.amount * factor, ingredient.unit));
+    }
+    if (ingredient.unit) {
+        parts.push(ingredient.unit);
+    }
+    parts.push(ingredient.name);
+    return parts.join(' ');
+}
+
+function readString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readNutrition(value: unknown): Nutrition | undefined {
+    if (!isRecord(value)) return undefined;
+    const { kcal, protein, fat, carbohydrates } = value;
+    const nutrition = { kcal: readNumber(kcal), protein: readNumber(protein), fat: readNumber(fat), carbohydrates: readNumber(carbohydrates) };
+    return Object.values(nutrition).every(v => v !== undefined) ? nutrition as Nutrition : undefined;
+}
+
+function readIngredient(ingredient: unknown): Ingredient {
+    if (typeof ingredient === 'string') {
+        return parseIngredient(ingredient);
+    }
+    const { amount, unit, name } = isRecord(ingredient) ? ingredient : {};
+    return {
+        amount: readNumber(amount) ?? null,
+        unit: typeof unit === 'string' ? (normalizeUnit(unit) ?? unit.trim()) : '',
+        name: typeof name === 'string' ? name.trim() : '',
+    };
+}
+
+/**
+ * Brings a recipe of any stored shape into the current `Recipe` model.
+ * Older versions saved ingredients as plain strings and had no servings.
+ * Fields of the wrong type are dropped, so imported or shared data can't break sorting or rendering.
+ */
+export function normalizeRecipe(raw: unknown): Recipe {
+    const record = isRecord(raw) ? raw : {};
+    const servings = Number(record.servings);
+    const recipe: Recipe = {
+        id: readString(record.id),
+        recipeName: readString(record.recipeName) ?? '',
+        description: readString(record.description) ?? '',
+        servings: Number.isFinite(servings) && servings > 0 ? Math.round(servings) : DEFAULT_SERVINGS,
+        totalTimeMinutes: readNumber(record.totalTimeMinutes),
+        difficulty: readString(record.difficulty),
+        ingredients: Array.isArray(record.ingredients) ? record.ingredients.map(readIngredient) : [],
+        instructions: Array.isArray(record.instructions) ? record.instructions.filter((step): step is string => typeof step === 'string') : [],
+        imageUrl: readString(record.imageUrl),
+        estimatedCostPerServing: readNumber(record.estimatedCostPerServing),
+        tags: normalizeTags(record.tags),
+        nutrition: readNutrition(record.nutrition),
+        allergens: Array.isArray(record.allergens) ? record.allergens.filter((id): id is string => typeof id === 'string') : undefined,
+        createdAt: readString(record.createdAt),
+        lastCookedAt: readString(record.lastCookedAt),
+    };
+    // Optional fields that weren't there stay absent instead of being stored as undefined.
+    (Object.keys(recipe) as (keyof Recipe)[]).forEach(key => {
+        if (recipe[key] === undefined) delete recipe[key];
+    });
+    return recipe;
+}
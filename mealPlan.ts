@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Recipe } from './types';
+
+export const WEEKDAYS = ['Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag', 'Sonntag'];
+export const MEALS = ['Frühstück', 'Mittag', 'Abend'] as const;
+
+export type Meal = typeof MEALS[number];
+
+export interface PlanSlot {
+    day: number;
+    meal: Meal;
+    recipeId: string | null;
+    locked: boolean;
+}
+
+export interface MealPlan {
+    slots: PlanSlot[];
+}
+
+export interface PlanAssignment {
+    day: number;
+    meal: Meal;
+    recipeName: string;
+}
+
+const MEAL_PLAN_KEY = 'mealPlan';
+
+export function createEmptyPlan(): MealPlan {
+    return {
+        slots: WEEKDAYS.flatMap((_, day) => MEALS.map(meal => ({ day, meal, recipeId: null, locked: false }))),
+    };
+}
+
+export function getMealPlan(): MealPlan {
+    const planJSON = localStorage.getItem(MEAL_PLAN_KEY);
+    if (!planJSON) {
+        return createEmptyPlan();
+    }
+    // Merge onto an empty plan so a partial or outdated plan still has every slot.
+    const stored: MealPlan = JSON.parse(planJSON);
+    const plan = createEmptyPlan();
+    plan.slots.forEach(slot => {
+        const match = stored.slots?.find(s => s.day === slot.day && s.meal === slot.meal);
+        if (match) {
+            slot.recipeId = match.recipeId ?? null;
+            slot.locked = !!match.locked;
+        }
+    });
+    return plan;
+}
+
+export function saveMealPlan(plan: MealPlan) {
+    localStorage.setItem(MEAL_PLAN_KEY, JSON.stringify(plan));
+}
+
+export function findSlot(plan: MealPlan, day: number, meal: Meal): PlanSlot | undefined {
+    return plan.slots.find(s => s.day === day && s.meal === meal);
+}
+
+export function getOpenSlots(plan: MealPlan): PlanSlot[] {
+    return plan.slots.filter(s => !s.locked && !s.recipeId);
+}
+
+/** Empties every slot that isn't locked, so the week can be planned again. */
+export function clearUnlockedSlots(plan: MealPlan): MealPlan {
+    return {
+        slots: plan.slots.map(s => (s.locked ? { ...s } : { ...s, recipeId: null })),
+    };
+}
+
+/**
+ * Applies suggested assignments to open slots only. Suggestions for locked or
+ * already filled slots, or for recipes that aren't known, are ignored.
+ */
+export function applyAssignments(plan: MealPlan, assignments: PlanAssignment[], knownRecipes: Pick<Recipe, 'id' | 'recipeName'>[]): MealPlan {
+    const known = new Map(knownRecipes.map(r => [r.recipeName.toLowerCase(), r.id]));
+    const next: MealPlan = { slots: plan.slots.map(s => ({ ...s })) };
+    assignments.forEach(({ day, meal, recipeName }) => {
+        const slot = findSlot(next, day, meal);
+        const id = known.get(recipeName?.toLowerCase());
+        if (slot && id && !slot.locked && !slot.recipeId) {
+            slot.recipeId = id;
+        }
+    });
+    return next;
+}
+
+/** Keeps the plan consistent after a saved recipe was deleted. */
+export function removeRecipeFromPlan(recipeId: string) {
+    const plan = getMealPlan();
+    let changed = false;
+    plan.slots.forEach(slot => {
+        if (slot.recipeId === recipeId) {
+            slot.recipeId = null;
+            slot.locked = false;
+            changed = true;
+        }
+    });
+    if (changed) {
+        saveMealPlan(plan);
+    }
+}
+
+/** Older plans referenced recipes by name; switches them to ids once the saved recipes are known. */
+export function migratePlanToRecipeIds(recipes: Pick<Recipe, 'id' | 'recipeName'>[]) {
+    const planJSON = localStorage.getItem(MEAL_PLAN_KEY);
+    if (!planJSON) return;
+    const stored: { slots?: (Partial<PlanSlot> & { recipeName?: string | null })[] } = JSON.parse(planJSON);
+    if (!stored.slots?.some(s => 'recipeName' in s)) return;
+
+    const byName = new Map(recipes.map(r => [r.recipeName.toLowerCase(), r.id]));
+    stored.slots.forEach(slot => {
+        if (slot.recipeName && !slot.recipeId) {
+            slot.recipeId = byName.get(slot.recipeName.toLowerCase()) ?? null;
+            if (!slot.recipeId) slot.locked = false;
+        }
+        delete slot.recipeName;
+    });
+    localStorage.setItem(MEAL_PLAN_KEY, JSON.stringify(stored));
+}
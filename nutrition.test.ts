@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { detectAllergens } from './nutrition';
+
+const ingredient = (name: string) => ({ amount: null, unit: '', name });
+
+describe('detectAllergens', () => {
+    it('ignores ingredients that only look like an allergen', () => {
+        expect(detectAllergens([ingredient('Kokosmilch'), ingredient('Muskatnuss'), ingredient('Reisnudeln')])).toEqual([]);
+    });
+
+    it('still finds an allergen next to an excluded term', () => {
+        expect(detectAllergens([ingredient('Kokosmilch oder Sahne')])).toEqual(['milch']);
+        expect(detectAllergens([ingredient('Erdnussbutter und Butter')])).toEqual(['erdnuesse', 'milch']);
+        expect(detectAllergens([ingredient('Schweinefilet in Weißwein')])).toEqual(['sulfite']);
+    });
+
+    it('matches short keywords only as whole words', () => {
+        expect(detectAllergens([ingredient('Reis')])).toEqual([]);
+        expect(detectAllergens([ingredient('1 Ei (Größe M)')])).toEqual(['eier']);
+    });
+});
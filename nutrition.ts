@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Ingredient, Nutrition, Recipe } from './types';
+
+export type AllergenId =
+    | 'gluten' | 'krebstiere' | 'eier' | 'fisch' | 'erdnuesse' | 'soja' | 'milch'
+    | 'schalenfruechte' | 'sellerie' | 'senf' | 'sesam' | 'sulfite' | 'lupinen' | 'weichtiere';
+
+export interface AllergenInfo {
+    id: AllergenId;
+    label: string;
+    shortLabel: string;
+    keywords: string[];
+    // Ingredient names that contain a keyword but are not a source, e.g. "Muskatnuss".
+    excludes?: string[];
+}
+
+export interface AllergenConflict {
+    allergen: AllergenInfo;
+    ingredients: string[];
+}
+
+const ALLERGEN_EXCLUSIONS_KEY = 'allergenExclusions';
+
+// The 14 main allergens that must be labelled in the EU (LMIV, Anhang II).
+// Keyword matching follows the shopping list: short keywords must match a whole word.
+export const EU_ALLERGENS: AllergenInfo[] = [
+    { id: 'gluten', label: 'Glutenhaltiges Getreide', shortLabel: 'Gluten', keywords: ['weizen', 'mehl', 'nudel', 'spaghetti', 'pasta', 'penne', 'brot', 'brötchen', 'toast', 'wrap', 'tortilla', 'baguette', 'grieß', 'dinkel', 'roggen', 'gerste', 'hafer', 'paniermehl', 'couscous', 'bulgur', 'bier'], excludes: ['reisnudel', 'glasnudel', 'reismehl', 'maismehl', 'kichererbsenmehl', 'mandelmehl'] },
+    { id: 'krebstiere', label: 'Krebstiere', shortLabel: 'Krebstiere', keywords: ['garnele', 'shrimp', 'krabbe', 'hummer', 'krebs', 'scampi', 'languste'] },
+    { id: 'eier', label: 'Eier', shortLabel: 'Ei', keywords: ['ei', 'eier', 'eigelb', 'eiweiß', 'mayonnaise', 'mayo'] },
+    { id: 'fisch', label: 'Fisch', shortLabel: 'Fisch', keywords: ['fisch', 'thunfisch', 'lachs', 'sardelle', 'sardine', 'forelle', 'kabeljau', 'seelachs', 'hering', 'makrele'] },
+    { id: 'erdnuesse', label: 'Erdnüsse', shortLabel: 'Erdnuss', keywords: ['erdnuss', 'erdnüsse'] },
+    { id: 'soja', label: 'Soja', shortLabel: 'Soja', keywords: ['soja', 'tofu', 'edamame', 'miso', 'tempeh'] },
+    { id: 'milch', label: 'Milch und Laktose', shortLabel: 'Milch', keywords: ['milch', 'sahne', 'butter', 'käse', 'joghurt', 'quark', 'mozzarella', 'feta', 'parmesan', 'schmand', 'crème fraîche', 'creme fraiche', 'frischkäse', 'mascarpone', 'ricotta'], excludes: ['kokosmilch', 'sojamilch', 'hafermilch', 'mandelmilch', 'erdnussbutter', 'butterschmalz-ersatz'] },
+    { id: 'schalenfruechte', label: 'Schalenfrüchte (Nüsse)', shortLabel: 'Nüsse', keywords: ['nuss', 'nüsse', 'mandel', 'cashew', 'pistazie', 'pekan', 'macadamia'], excludes: ['erdnuss', 'erdnüsse', 'muskatnuss', 'kokosnuss'] },
+    { id: 'sellerie', label: 'Sellerie', shortLabel: 'Sellerie', keywords: ['sellerie', 'suppengrün'] },
+    { id: 'senf', label: 'Senf', shortLabel: 'Senf', keywords: ['senf'] },
+    { id: 'sesam', label: 'Sesam', shortLabel: 'Sesam', keywords: ['sesam', 'tahin'] },
+    { id: 'sulfite', label: 'Schwefeldioxid und Sulfite', shortLabel: 'Sulfite', keywords: ['wein', 'balsamico', 'getrocknete aprikose', 'trockenobst', 'rosinen'], excludes: ['schwein', 'weinbeere'] },
+    { id: 'lupinen', label: 'Lupinen', shortLabel: 'Lupine', keywords: ['lupine'] },
+    { id: 'weichtiere', label: 'Weichtiere', shortLabel: 'Weichtiere', keywords: ['muschel', 'tintenfisch', 'calamari', 'oktopus', 'schnecke'] },
+];
+
+export const ALLERGEN_IDS = EU_ALLERGENS.map(a => a.id);
+
+export function getAllergen(id: string): AllergenInfo | undefined {
+    return EU_ALLERGENS.find(a => a.id === id);
+}
+
+function containsAllergen(name: string, allergen: AllergenInfo): boolean {
+    // Only the excluded term itself is ignored: "Kokosmilch, Sahne" still contains milk.
+    const lower = (allergen.excludes ?? []).reduce((text, exclude) => text.split(exclude).join(' '), name.toLowerCase());
+    const words = lower.split(/[\s,()-]+/);
+    return allergen.keywords.some(keyword => (keyword.length <= 3 ? words.includes(keyword) : lower.includes(keyword)));
+}
+
+/** Ingredients of the recipe that contain the allergen according to the local keyword table. */
+export function findAllergenSources(ingredients: Ingredient[], allergen: AllergenInfo): string[] {
+    return ingredients.filter(i => containsAllergen(i.name, allergen)).map(i => i.name);
+}
+
+export function detectAllergens(ingredients: Ingredient[]): AllergenId[] {
+    return EU_ALLERGENS.filter(a => findAllergenSources(ingredients, a).length > 0).map(a => a.id);
+}
+
+/**
+ * Allergens named by Gemini plus those found locally. Both can miss something,
+ * so for labelling the union is the safer choice.
+ */
+export function getRecipeAllergens(recipe: Recipe): AllergenId[] {
+    const found = new Set<string>([...(recipe.allergens ?? []), ...detectAllergens(recipe.ingredients)]);
+    return ALLERGEN_IDS.filter(id => found.has(id));
+}
+
+/** Allergens of the recipe the user wanted to avoid, with the ingredients that contain them. */
+export function checkAllergenExclusions(recipe: Recipe, excluded: AllergenId[]): AllergenConflict[] {
+    const present = getRecipeAllergens(recipe);
+    return excluded
+        .filter(id => present.includes(id))
+        .map(id => {
+            const allergen = getAllergen(id)!;
+            return { allergen, ingredients: findAllergenSources(recipe.ingredients, allergen) };
+        });
+}
+
+export function formatNutrition(nutrition: Nutrition): string {
+    const grams = (value: number) => `${Math.round(value).toLocaleString('de-DE')} g`;
+    return [
+        `${Math.round(nutrition.kcal).toLocaleString('de-DE')} kcal`,
+        `${grams(nutrition.protein)} Eiweiß`,
+        `${grams(nutrition.fat)} Fett`,
+        `${grams(nutrition.carbohydrates)} Kohlenhydrate`,
+    ].join(' · ');
+}
+
+// --- LocalStorage Functions ---
+export function getAllergenExclusions(): AllergenId[] {
+    const exclusionsJSON = localStorage.getItem(ALLERGEN_EXCLUSIONS_KEY);
+    const stored: string[] = exclusionsJSON ? JSON.parse(exclusionsJSON) : [];
+    return ALLERGEN_IDS.filter(id => stored.includes(id));
+}
+
+export function saveAllergenExclusions(exclusions: AllergenId[]) {
+    localStorage.setItem(ALLERGEN_EXCLUSIONS_KEY, JSON.stringify(exclusions));
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { checkPantry, consumeIngredients, findPantryItem, type PantryItem } from './pantry';
+import type { Recipe } from './types';
+
+function pantryOf(...names: string[]): PantryItem[] {
+    return names.map((name, index) => ({ id: String(index), amount: 500, unit: 'g', name }));
+}
+
+const found = (name: string, pantry: PantryItem[]) => findPantryItem(name, pantry)?.name;
+
+describe('findPantryItem', () => {
+    it('matches plurals and other endings', () => {
+        expect(found('Zwiebeln', pantryOf('Zwiebel'))).toBe('Zwiebel');
+        expect(found('Ei', pantryOf('Eier'))).toBe('Eier');
+        expect(found('Champignons', pantryOf('Champignon'))).toBe('Champignon');
+    });
+
+    it('lets a general item stand in for a more specific ingredient', () => {
+        expect(found('Gemüsebrühe', pantryOf('Brühe'))).toBe('Brühe');
+        expect(found('Nudeln (Penne)', pantryOf('Nudeln'))).toBe('Nudeln');
+        expect(found('Vollkornreis', pantryOf('Reis'))).toBe('Reis');
+    });
+
+    it('does not let a specific item stand in for a general ingredient', () => {
+        expect(found('Milch', pantryOf('Kokosmilch'))).toBeUndefined();
+        expect(found('Butter', pantryOf('Erdnussbutter'))).toBeUndefined();
+        expect(found('Mehl', pantryOf('Maismehl'))).toBeUndefined();
+        expect(found('Zucker', pantryOf('Puderzucker'))).toBeUndefined();
+        expect(found('Tomaten', pantryOf('passierte Tomaten'))).toBeUndefined();
+    });
+
+    it('does not match parts of unrelated words', () => {
+        expect(found('Reis', pantryOf('Ei'))).toBeUndefined();
+        expect(found('Salzbrezel', pantryOf('Salz'))).toBeUndefined();
+    });
+});
+
+describe('pantry and recipes', () => {
+    const recipe: Recipe = {
+        recipeName: 'Milchreis',
+        description: '',
+        servings: 2,
+        ingredients: [{ amount: 500, unit: 'ml', name: 'Milch' }, { amount: 125, unit: 'g', name: 'Milchreis' }],
+        instructions: ['Kochen.'],
+    };
+
+    it('lists ingredients only a more specific item could replace as missing', () => {
+        const pantry: PantryItem[] = [{ id: '1', amount: 400, unit: 'ml', name: 'Kokosmilch' }, { id: '2', amount: 1, unit: 'kg', name: 'Reis' }];
+
+        expect(checkPantry(recipe, pantry).missing.map(i => i.name)).toEqual(['Milch']);
+    });
+
+    it('takes cooked ingredients from the matching item only', () => {
+        const pantry: PantryItem[] = [{ id: '1', amount: 400, unit: 'ml', name: 'Kokosmilch' }, { id: '2', amount: 1, unit: 'kg', name: 'Reis' }];
+
+        expect(consumeIngredients(pantry, recipe).map(i => [i.name, i.amount, i.unit])).toEqual([
+            ['Kokosmilch', 400, 'ml'],
+            ['Reis', 875, 'g'],
+        ]);
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { toBaseUnit } from './ingredients';
+import type { Ingredient, Recipe } from './types';
+
+export interface PantryItem extends Ingredient {
+    id: string;
+}
+
+export interface PantryCheck {
+    missing: Ingredient[];
+    usedUp: PantryItem[];
+}
+
+const PANTRY_KEY = 'pantry';
+
+// Basics almost every kitchen has; they never count as missing.
+const BASIC_STAPLES = ['salz', 'pfeffer', 'öl', 'wasser'];
+
+// Leftovers smaller than this (in g/ml/Stück) count as used up.
+const EPSILON = 0.01;
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+export function isBasicStaple(name: string): boolean {
+    const lower = normalizeName(name);
+    return BASIC_STAPLES.some(staple => lower === staple || lower.split(/\s+/).includes(staple));
+}
+
+// "Zwiebeln" -> "zwiebel", "Eier" -> "ei", "Champignons" -> "champigno"; "Reis" stays "reis".
+function stem(word: string): string {
+    const singular = word.length > 5 ? word.replace(/s$/, '') : word;
+    const withoutEnding = singular.replace(/(en|er|n|e)$/, '');
+    return withoutEnding.length >= 2 ? withoutEnding : singular;
+}
+
+function nameWords(name: string): string[] {
+    return normalizeName(name).split(/[\s,()/-]+/).filter(Boolean);
+}
+
+function endsWithWord(compound: string, word: string): boolean {
+    return word.length >= 4 && compound.endsWith(word);
+}
+
+// Brühe in the pantry does for "Gemüsebrühe", since a compound is a kind of its last part.
+// Not the other way round: Kokosmilch is no "Milch", and "Salzbrezel" has nothing to do with salt.
+function wordsMatch(pantryWord: string, ingredientWord: string): boolean {
+    const [pantryStem, ingredientStem] = [stem(pantryWord), stem(ingredientWord)];
+    return pantryStem === ingredientStem
+        || endsWithWord(ingredientWord, pantryWord)
+        || endsWithWord(ingredientStem, pantryStem);
+}
+
+/**
+ * Finds a pantry item that is the ingredient or a more general name for it:
+ * "Zwiebel" for "Zwiebeln" and "Nudeln" for "Nudeln (Penne)", but not
+ * "passierte Tomaten" for "Tomaten". Every word of the item has to match.
+ */
+export function findPantryItem(name: string, pantry: PantryItem[]): PantryItem | undefined {
+    const lower = normalizeName(name);
+    const words = nameWords(name);
+    return pantry.find(item => normalizeName(item.name) === lower)
+        ?? pantry.find(item => {
+            const itemWords = nameWords(item.name);
+            return itemWords.length > 0 && itemWords.every(word => words.some(other => wordsMatch(word, other)));
+        });
+}
+
+/**
+ * Returns the amount left in the pantry item after taking `ingredient`, or null
+ * if the amounts can't be compared (unknown amount or different units).
+ */
+function remainingAfter(item: PantryItem, ingredient: Ingredient, factor: number): number | null {
+    const stock = toBaseUnit(item);
+    const needed = toBaseUnit({ amount: ingredient.amount === null ? null : ingredient.amount * factor, unit: ingredient.unit });
+    if (stock.amount === null || needed.amount === null || stock.unit !== needed.unit) {
+        return null;
+    }
+    return stock.amount - needed.amount;
+}
+
+/**
+ * Compares a recipe (scaled by `factor`) with the pantry: which ingredients
+ * have to be bought, and which pantry items would be used up completely.
+ */
+export function checkPantry(recipe: Recipe, pantry: PantryItem[], factor = 1): PantryCheck {
+    const missing: Ingredient[] = [];
+    const usedUp: PantryItem[] = [];
+
+    recipe.ingredients.forEach(ingredient => {
+        if (isBasicStaple(ingredient.name)) return;
+        const item = findPantryItem(ingredient.name, pantry);
+        if (!item) {
+            missing.push({ ...ingredient, amount: ingredient.amount === null ? null : ingredient.amount * factor });
+            return;
+        }
+        const remaining = remainingAfter(item, ingredient, factor);
+        if (remaining === null || remaining > EPSILON) return;
+        usedUp.push(item);
+        if (remaining < -EPSILON) {
+            const { unit } = toBaseUnit(item);
+            missing.push({ amount: -remaining, unit, name: ingredient.name });
+        }
+    });
+
+    return { missing, usedUp };
+}
+
+/** Takes the ingredients of a cooked recipe out of the pantry. */
+export function consumeIngredients(pantry: PantryItem[], recipe: Recipe, factor = 1): PantryItem[] {
+    const next = pantry.map(item => ({ ...item }));
+    recipe.ingredients.forEach(ingredient => {
+        const item = findPantryItem(ingredient.name, next);
+        if (!item) return;
+        const remaining = remainingAfter(item, ingredient, factor);
+        if (remaining === null) return;
+        const base = toBaseUnit(item);
+        item.amount = Math.max(0, remaining);
+        item.unit = base.unit;
+    });
+    return next.filter(item => item.amount === null || item.amount > EPSILON);
+}
+
+export function createPantryItem(ingredient: Ingredient): PantryItem {
+    return { ...ingredient, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}` };
+}
+
+/** Adds to an existing item with the same name and unit instead of duplicating it. */
+export function addToPantry(pantry: PantryItem[], ingredient: Ingredient): PantryItem[] {
+    const incoming = toBaseUnit(ingredient);
+    const next = pantry.map(item => ({ ...item }));
+    const existing = next.find(item => normalizeName(item.name) === normalizeName(ingredient.name)
+        && toBaseUnit(item).unit === incoming.unit);
+    if (existing) {
+        const stock = toBaseUnit(existing);
+        existing.amount = stock.amount === null || incoming.amount === null ? null : stock.amount + incoming.amount;
+        existing.unit = stock.unit;
+        return next;
+    }
+    return [...next, createPantryItem(ingredient)];
+}
+
+// --- LocalStorage Functions ---
+export function getPantry(): PantryItem[] {
+    const pantryJSON = localStorage.getItem(PANTRY_KEY);
+    return pantryJSON ? JSON.parse(pantryJSON) : [];
+}
+
+export function savePantry(pantry: PantryItem[]) {
+    localStorage.setItem(PANTRY_KEY, JSON.stringify(pantry));
+}
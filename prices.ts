@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Recipe } from './types';
+
+/** Price of `quantity` `unit` of an ingredient, e.g. 0,99 € for 500 g Nudeln. */
+export interface PriceEntry {
+    name: string;
+    price: number;
+    quantity: number;
+    unit: string;
+}
+
+export interface CostEstimate {
+    total: number;
+    perServing: number;
+    unpriced: string[];
+}
+
+const PRICE_TABLE_KEY = 'priceTable';
+
+// Typical discounter prices; users adjust them to their own supermarket.
+export const DEFAULT_PRICE_TABLE: PriceEntry[] = [
+    { name: 'Nudeln', price: 0.99, quantity: 500, unit: 'g' },
+    { name: 'Spaghetti', price: 0.99, quantity: 500, unit: 'g' },
+    { name: 'Reis', price: 1.49, quantity: 1000, unit: 'g' },
+    { name: 'Kartoffeln', price: 1.99, quantity: 2000, unit: 'g' },
+    { name: 'Mehl', price: 0.59, quantity: 1000, unit: 'g' },
+    { name: 'Zucker', price: 0.99, quantity: 1000, unit: 'g' },
+    { name: 'Haferflocken', price: 0.69, quantity: 500, unit: 'g' },
+    { name: 'Linsen', price: 1.49, quantity: 500, unit: 'g' },
+    { name: 'Zwiebel', price: 0.15, quantity: 1, unit: 'Stück' },
+    { name: 'Zwiebel', price: 1.49, quantity: 1000, unit: 'g' },
+    { name: 'Knoblauch', price: 0.25, quantity: 1, unit: 'Stück' },
+    { name: 'Möhren', price: 1.19, quantity: 1000, unit: 'g' },
+    { name: 'Tomaten', price: 2.49, quantity: 1000, unit: 'g' },
+    { name: 'Passierte Tomaten', price: 0.69, quantity: 500, unit: 'g' },
+    { name: 'Tomatenmark', price: 0.49, quantity: 200, unit: 'g' },
+    { name: 'Paprika', price: 0.79, quantity: 1, unit: 'Stück' },
+    { name: 'Spinat', price: 1.99, quantity: 450, unit: 'g' },
+    { name: 'Lauch', price: 0.89, quantity: 1, unit: 'Stück' },
+    { name: 'Eier', price: 0.25, quantity: 1, unit: 'Stück' },
+    { name: 'Milch', price: 0.99, quantity: 1000, unit: 'ml' },
+    { name: 'Sahne', price: 0.89, quantity: 200, unit: 'ml' },
+    { name: 'Butter', price: 1.99, quantity: 250, unit: 'g' },
+    { name: 'Käse', price: 1.79, quantity: 250, unit: 'g' },
+    { name: 'Mozzarella', price: 0.89, quantity: 125, unit: 'g' },
+    { name: 'Feta', price: 1.49, quantity: 200, unit: 'g' },
+    { name: 'Hähnchen', price: 6.99, quantity: 1000, unit: 'g' },
+    { name: 'Hackfleisch', price: 5.99, quantity: 1000, unit: 'g' },
+    { name: 'Thunfisch', price: 1.29, quantity: 150, unit: 'g' },
+    { name: 'Öl', price: 2.49, quantity: 1000, unit: 'ml' },
+    { name: 'Salz', price: 0.39, quantity: 500, unit: 'g' },
+    { name: 'Brühe', price: 0.99, quantity: 1000, unit: 'ml' },
+    { name: 'Wraps', price: 1.29, quantity: 6, unit: 'Stück' },
+    { name: 'Toast', price: 0.99, quantity: 500, unit: 'g' },
+];
+
+// Everything measurable is converted to g; ml count as g, which is close enough for a price estimate.
+const GRAMS_PER_UNIT: Record<string, number> = {
+    'g': 1,
+    'kg': 1000,
+    'ml': 1,
+    'l': 1000,
+    'EL': 15,
+    'TL': 5,
+    'Prise': 0.5,
+};
+
+function toComparable(amount: number, unit: string): { dimension: 'weight' | 'count'; value: number } {
+    const grams = GRAMS_PER_UNIT[unit];
+    if (grams !== undefined) {
+        return { dimension: 'weight', value: amount * grams };
+    }
+    // "Stück" and ingredients without unit ("3 Eier") are counted.
+    return { dimension: 'count', value: amount };
+}
+
+/**
+ * Finds the best price entry for an ingredient: the longest entry name that is
+ * part of the ingredient name and whose unit can be converted.
+ */
+export function findPriceEntry(name: string, unit: string, table: PriceEntry[]): PriceEntry | undefined {
+    const lower = name.toLowerCase();
+    const dimension = toComparable(1, unit).dimension;
+    return table
+        .filter(entry => entry.name && lower.includes(entry.name.toLowerCase()))
+        .filter(entry => toComparable(1, entry.unit).dimension === dimension)
+        .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+export function estimateRecipeCost(recipe: Recipe, table: PriceEntry[] = getPriceTable()): CostEstimate {
+    let total = 0;
+    const unpriced: string[] = [];
+    recipe.ingredients.forEach(ingredient => {
+        // "Salz nach Geschmack" and similar don't change the price noticeably.
+        if (ingredient.amount === null) return;
+        const entry = findPriceEntry(ingredient.name, ingredient.unit, table);
+        if (!entry || !(entry.quantity > 0)) {
+            unpriced.push(ingredient.name);
+            return;
+        }
+        const needed = toComparable(ingredient.amount, ingredient.unit).value;
+        const packSize = toComparable(entry.quantity, entry.unit).value;
+        total += (needed / packSize) * entry.price;
+    });
+    return { total, perServing: total / recipe.servings, unpriced };
+}
+
+/**
+ * The per-serving cost to show for a recipe. Ingredients without a price entry
+ * are missing from the local estimate; if nothing matched at all, Gemini's guess is used.
+ */
+export function getDisplayedCost(recipe: Recipe, table: PriceEntry[] = getPriceTable()): { perServing?: number; isAiEstimate: boolean; unpriced: string[] } {
+    const estimate = estimateRecipeCost(recipe, table);
+    const hasLocalPrices = estimate.unpriced.length < recipe.ingredients.filter(i => i.amount !== null).length;
+    if (hasLocalPrices) {
+        return { perServing: estimate.perServing, isAiEstimate: false, unpriced: estimate.unpriced };
+    }
+    return { perServing: recipe.estimatedCostPerServing, isAiEstimate: true, unpriced: [] };
+}
+
+/** Returns the expected cost per serving if it exceeds the budget, otherwise null. */
+export function checkBudget(recipe: Recipe, budget: number, table: PriceEntry[] = getPriceTable()): number | null {
+    // The local estimate misses unpriced ingredients, so take the more pessimistic of both numbers.
+    const perServing = Math.max(estimateRecipeCost(recipe, table).perServing, recipe.estimatedCostPerServing ?? 0);
+    return perServing > budget ? perServing : null;
+}
+
+export function formatEuro(value: number): string {
+    return value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
+}
+
+// --- LocalStorage Functions ---
+export function getPriceTable(): PriceEntry[] {
+    const tableJSON = localStorage.getItem(PRICE_TABLE_KEY);
+    return tableJSON ? JSON.parse(tableJSON) : DEFAULT_PRICE_TABLE.map(entry => ({ ...entry }));
+}
+
+export function savePriceTable(table: PriceEntry[]) {
+    localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+}
+
+export function resetPriceTable() {
+    localStorage.removeItem(PRICE_TABLE_KEY);
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Bump to drop every cache of the previous version on the next activation.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Third-party code and fonts; served from the cache and refreshed in the background.
+const RUNTIME_HOSTS = ['esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// The built index.html references hashed bundles (/assets/index-abc123.js), so they are
+// read from the page itself instead of being listed here.
+function findShellAssets(html) {
+    const urls = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+    return [...new Set(urls)];
+}
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(SHELL_URLS);
+        const index = await cache.match('/index.html');
+        if (index) {
+            await cache.addAll(findShellAssets(await index.text()));
+        }
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const keys = await caches.keys();
+        await Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key)));
+        await self.clients.claim();
+    })());
+});
+
+// Only a navigation to the app itself refreshes the cached shell; any other page,
+// like an error page of the server, must not replace it.
+function isShellNavigation(request) {
+    const { origin, pathname } = new URL(request.url);
+    return origin === self.location.origin && (pathname === '/' || pathname === '/index.html');
+}
+
+async function networkFirst(request) {
+    try {
+        const response = await fetch(request);
+        if (response.ok && !response.redirected && isShellNavigation(request)) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put('/index.html', response.clone());
+        }
+        return response;
+    } catch {
+        return (await caches.match('/index.html')) ?? Response.error();
+    }
+}
+
+async function cacheFirst(request) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
+
+async function staleWhileRevalidate(request) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const cached = await cache.match(request);
+    const update = fetch(request)
+        .then(response => {
+            // Opaque responses (status 0) are fine for fonts and stylesheets loaded without CORS.
+            if (response.ok || response.type === 'opaque') {
+                cache.put(request, response.clone());
+            }
+            return response;
+        })
+        .catch(() => cached ?? Response.error());
+    return cached ?? update;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request));
+    } else if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname))) {
+        event.respondWith(cacheFirst(request));
+    } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+    // Everything else, in particular the Gemini API, goes straight to the network.
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { formatIngredient } from './ingredients';
+import type { Recipe } from './types';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface DiffLine {
+    status: DiffStatus;
+    before?: string;
+    after?: string;
+}
+
+export interface FieldChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+export interface RecipeDiff {
+    fields: FieldChange[];
+    ingredients: DiffLine[];
+    instructions: DiffLine[];
+}
+
+const FIELD_LABELS: [keyof Recipe, string][] = [
+    ['recipeName', 'Name'],
+    ['description', 'Beschreibung'],
+    ['servings', 'Portionen'],
+    ['totalTimeMinutes', 'Zeit (Min.)'],
+    ['difficulty', 'Schwierigkeit'],
+];
+
+/** Line diff based on the longest common subsequence; fine for a few dozen steps. */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+    const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+    lengths.push(new Array<number>(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i][j] = before[i] === after[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+        if (before[i] === after[j]) {
+            lines.push({ status: 'unchanged', before: before[i], after: after[j] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            lines.push({ status: 'removed', before: before[i++] });
+        } else {
+            lines.push({ status: 'added', after: after[j++] });
+        }
+    }
+    while (i < before.length) lines.push({ status: 'removed', before: before[i++] });
+    while (j < after.length) lines.push({ status: 'added', after: after[j++] });
+    return lines;
+}
+
+/**
+ * Ingredients are matched by name, so "200 g Nudeln" -> "250 g Nudeln" shows
+ * up as one changed line instead of a removal and an addition.
+ */
+function diffIngredients(before: Recipe, after: Recipe): DiffLine[] {
+    const key = (name: string) => name.trim().toLowerCase();
+    const remaining = new Map(before.ingredients.map(i => [key(i.name), i]));
+    const lines: DiffLine[] = [];
+
+    after.ingredients.forEach(ingredient => {
+        const previous = remaining.get(key(ingredient.name));
+        const text = formatIngredient(ingredient);
+        if (!previous) {
+            lines.push({ status: 'added', after: text });
+            return;
+        }
+        remaining.delete(key(ingredient.name));
+        const previousText = formatIngredient(previous);
+        lines.push({ status: previousText === text ? 'unchanged' : 'changed', before: previousText, after: text });
+    });
+    remaining.forEach(ingredient => lines.push({ status: 'removed', before: formatIngredient(ingredient) }));
+
+    return lines;
+}
+
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+    const fields = FIELD_LABELS
+        .map(([field, label]) => ({
+            field: label,
+            before: before[field] === undefined ? '' : String(before[field]),
+            after: after[field] === undefined ? '' : String(after[field]),
+        }))
+        .filter(change => change.before !== change.after);
+
+    return {
+        fields,
+        ingredients: diffIngredients(before, after),
+        instructions: diffLines(before.instructions, after.instructions),
+    };
+}
+
+export function hasChanges(diff: RecipeDiff): boolean {
+    return diff.fields.length > 0
+        || diff.ingredients.some(line => line.status !== 'unchanged')
+        || diff.instructions.some(line => line.status !== 'unchanged');
+}
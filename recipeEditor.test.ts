@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createRecipeEditor, type RecipeEditor } from './recipeEditor';
+import type { Recipe } from './types';
+
+const pasta: Recipe = {
+    id: 'lokal-1',
+    recipeName: 'Nudeln mit Tomatensoße',
+    description: 'Schnell und günstig',
+    servings: 2,
+    difficulty: 'Anfänger',
+    ingredients: [{ amount: 250, unit: 'g', name: 'Nudeln' }, { amount: 400, unit: 'g', name: 'Tomaten' }],
+    instructions: ['Nudeln kochen.', 'Soße kochen.'],
+    tags: ['schnell', 'vegetarisch'],
+    nutrition: { kcal: 550, protein: 18, fat: 6, carbohydrates: 100 },
+    allergens: ['gluten'],
+    createdAt: '2026-01-01T12:00:00.000Z',
+};
+
+describe('recipe editor', () => {
+    let container: HTMLElement;
+    let editor: RecipeEditor;
+    const field = <T extends HTMLElement>(name: string) => container.querySelector(`#test-${name}`) as T;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        editor = createRecipeEditor(container, { idPrefix: 'test', imageLabel: 'Bild' });
+    });
+
+    it('returns the recipe it was given, including fields without an input', () => {
+        editor.setRecipe(pasta);
+
+        expect(editor.getRecipe()).toEqual(pasta);
+    });
+
+    it('returns null while name, ingredients or instructions are missing', () => {
+        expect(editor.getRecipe()).toBeNull();
+
+        editor.setRecipe(pasta);
+        field<HTMLTextAreaElement>('instructions').value = '  \n ';
+
+        expect(editor.getRecipe()).toBeNull();
+    });
+
+    it('drops nutrition and allergens when the ingredients change', () => {
+        editor.setRecipe(pasta);
+        field<HTMLTextAreaElement>('ingredients').value = '250 g Nudeln\n1 Zucchini';
+
+        const recipe = editor.getRecipe()!;
+
+        expect(recipe.ingredients).toEqual([{ amount: 250, unit: 'g', name: 'Nudeln' }, { amount: 1, unit: '', name: 'Zucchini' }]);
+        expect(recipe).not.toHaveProperty('nutrition');
+        expect(recipe).not.toHaveProperty('allergens');
+    });
+
+    it('doesn\'t invent a difficulty and keeps unknown ones', () => {
+        const { difficulty, ...withoutDifficulty } = pasta;
+
+        editor.setRecipe(withoutDifficulty);
+        expect(field<HTMLSelectElement>('difficulty').value).toBe('');
+        expect(editor.getRecipe()).not.toHaveProperty('difficulty');
+
+        editor.setRecipe({ ...pasta, difficulty: 'Leicht' });
+        expect(editor.getRecipe()?.difficulty).toBe('Leicht');
+    });
+
+    it('shows recipe text as text, never as markup', () => {
+        const attack = '<img src=x onerror="alert(1)">';
+
+        editor.setRecipe({ ...pasta, recipeName: attack, instructions: [attack] });
+
+        expect(container.querySelector('img')).toBeNull();
+        expect(field<HTMLInputElement>('name').value).toBe(attack);
+        expect(editor.getRecipe()).toMatchObject({ recipeName: attack, instructions: [attack] });
+    });
+});
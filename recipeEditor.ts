@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { html, render, type SafeHtml } from './html';
+import { DEFAULT_SERVINGS, formatIngredient, parseIngredientLines } from './ingredients';
+import { DIFFICULTIES, normalizeTags } from './recipeSearch';
+import type { Recipe } from './types';
+
+export interface RecipeEditorOptions {
+    // Keeps the ids of different editors on one page apart, e.g. "edit-recipe".
+    idPrefix: string;
+    imageLabel: string;
+}
+
+export interface RecipeEditor {
+    /** Fills the fields; what has no field (id, nutrition, cost, dates …) is kept for `getRecipe`. */
+    setRecipe(recipe: Recipe | null): void;
+    /** The recipe as entered, or null if name, ingredients or instructions are missing. */
+    getRecipe(): Recipe | null;
+    getImageFile(): File | undefined;
+}
+
+function ingredientLines(recipe: Recipe): string {
+    return recipe.ingredients.map(i => formatIngredient(i)).join('\n');
+}
+
+// "—" stands for no difficulty, so editing a recipe doesn't invent one.
+function renderDifficultyOptions(difficulties: string[]): SafeHtml {
+    return html`
+        <option value="">—</option>
+        ${difficulties.map(d => html`<option value="${d}">${d}</option>`)}
+    `;
+}
+
+/** The recipe form of the recipe card and the "Eigenes Rezept" dialog. */
+export function createRecipeEditor(container: HTMLElement, { idPrefix, imageLabel }: RecipeEditorOptions): RecipeEditor {
+    const id = (field: string) => `${idPrefix}-${field}`;
+    container.classList.add('recipe-editor');
+    render(container, html`
+        <div class="form-group">
+            <label for="${id('name')}">Rezeptname</label>
+            <input type="text" id="${id('name')}" required>
+        </div>
+        <div class="form-group">
+            <label for="${id('description')}">Beschreibung</label>
+            <textarea id="${id('description')}" rows="3"></textarea>
+        </div>
+        <div class="form-group">
+            <label for="${id('servings')}">Portionen</label>
+            <input type="number" id="${id('servings')}" min="1" max="50" required>
+        </div>
+        <div class="form-group">
+            <label for="${id('difficulty')}">Schwierigkeitsgrad</label>
+            <select id="${id('difficulty')}">${renderDifficultyOptions(DIFFICULTIES)}</select>
+        </div>
+        <div class="form-group">
+            <label for="${id('tags')}">Tags (optional, mit Komma getrennt)</label>
+            <input type="text" id="${id('tags')}" list="tag-suggestions" placeholder="z.B. vegetarisch, schnell, Meal-Prep">
+        </div>
+        <div class="form-group">
+            <label for="${id('ingredients')}">Zutaten (eine pro Zeile, z.B. "200 g Nudeln")</label>
+            <textarea id="${id('ingredients')}" rows="5" required></textarea>
+        </div>
+        <div class="form-group">
+            <label for="${id('instructions')}">Anleitung (ein Schritt pro Zeile)</label>
+            <textarea id="${id('instructions')}" rows="7" required></textarea>
+        </div>
+        <div class="form-group">
+            <label for="${id('image')}">${imageLabel}</label>
+            <input type="file" id="${id('image')}" accept="image/*">
+        </div>
+    `);
+
+    const field = <T extends HTMLElement>(name: string) => container.querySelector(`#${id(name)}`) as T;
+    const nameInput = field<HTMLInputElement>('name');
+    const descriptionTextarea = field<HTMLTextAreaElement>('description');
+    const servingsInput = field<HTMLInputElement>('servings');
+    const difficultySelect = field<HTMLSelectElement>('difficulty');
+    const tagsInput = field<HTMLInputElement>('tags');
+    const ingredientsTextarea = field<HTMLTextAreaElement>('ingredients');
+    const instructionsTextarea = field<HTMLTextAreaElement>('instructions');
+    const imageInput = field<HTMLInputElement>('image');
+
+    let base: Recipe | null = null;
+
+    const editor: RecipeEditor = {
+        // Values are set as properties, never as markup, so nothing in the recipe is parsed as HTML.
+        setRecipe(recipe) {
+            base = recipe ? { ...recipe } : null;
+            nameInput.value = recipe?.recipeName ?? '';
+            descriptionTextarea.value = recipe?.description ?? '';
+            servingsInput.value = String(recipe?.servings ?? DEFAULT_SERVINGS);
+            // Imported recipes may use other levels; they are kept as they are.
+            const difficulty = recipe?.difficulty ?? '';
+            render(difficultySelect, renderDifficultyOptions(difficulty && !DIFFICULTIES.includes(difficulty) ? [...DIFFICULTIES, difficulty] : DIFFICULTIES));
+            difficultySelect.value = difficulty;
+            tagsInput.value = (recipe?.tags ?? []).join(', ');
+            ingredientsTextarea.value = recipe ? ingredientLines(recipe) : '';
+            instructionsTextarea.value = recipe?.instructions.join('\n') ?? '';
+            imageInput.value = '';
+        },
+        getRecipe() {
+            const recipe: Recipe = {
+                ...base,
+                recipeName: nameInput.value.trim(),
+                description: descriptionTextarea.value.trim(),
+                servings: parseInt(servingsInput.value, 10) || base?.servings || DEFAULT_SERVINGS,
+                difficulty: difficultySelect.value || undefined,
+                tags: normalizeTags(tagsInput.value),
+                ingredients: parseIngredientLines(ingredientsTextarea.value),
+                instructions: instructionsTextarea.value.split('\n').map(line => line.trim()).filter(line => line),
+            };
+            if (!recipe.recipeName || recipe.ingredients.length === 0 || recipe.instructions.length === 0) {
+                return null;
+            }
+            if (!recipe.difficulty) {
+                delete recipe.difficulty;
+            }
+            // Gemini's nutrition values and allergens describe the old ingredients.
+            if (base && ingredientLines(recipe) !== ingredientLines(base)) {
+                delete recipe.nutrition;
+                delete recipe.allergens;
+            }
+            return recipe;
+        },
+        getImageFile() {
+            return imageInput.files?.[0];
+        },
+    };
+    editor.setRecipe(null);
+    return editor;
+}
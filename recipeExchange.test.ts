@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT, parseRecipeImport, recipesToJson } from './recipeExchange';
+import type { Recipe } from './types';
+
+const pasta: Recipe = {
+    id: 'lokal-1',
+    recipeName: 'Nudeln mit Tomatensoße',
+    description: 'Schnell und günstig',
+    servings: 2,
+    ingredients: [{ amount: 250, unit: 'g', name: 'Nudeln' }],
+    instructions: ['Nudeln kochen.'],
+    tags: ['schnell'],
+    createdAt: '2026-01-01T12:00:00.000Z',
+};
+
+function exportFile(recipes: unknown[]): string {
+    return JSON.stringify({ format: EXPORT_FORMAT, version: 1, exportedAt: '2026-01-01T12:00:00.000Z', recipes });
+}
+
+describe('parseRecipeImport', () => {
+    it('reads its own export without the local id', () => {
+        const [entry] = parseRecipeImport(recipesToJson([pasta]));
+
+        expect(entry.errors).toEqual([]);
+        const { id, ...portable } = pasta;
+        expect(entry.recipe).toEqual(portable);
+    });
+
+    it('rejects recipes whose optional fields have the wrong type', () => {
+        const [entry] = parseRecipeImport(exportFile([{ ...pasta, createdAt: 1767268800000, tags: [1, 2] }]));
+
+        expect(entry.recipe).toBeUndefined();
+        expect(entry.errors).toEqual(['Die Tags sind ungültig.', 'Das Erstellungsdatum ist ungültig.']);
+    });
+
+    it('drops fields the app doesn\'t know', () => {
+        const [entry] = parseRecipeImport(exportFile([{ ...pasta, rating: 'fünf', onload: 'alert(1)' }]));
+
+        expect(entry.recipe).not.toHaveProperty('rating');
+        expect(entry.recipe).not.toHaveProperty('onload');
+    });
+
+    it('reads schema.org recipes from a graph', () => {
+        const [entry] = parseRecipeImport(JSON.stringify({
+            '@context': 'https://schema.org',
+            '@graph': [
+                { '@type': 'WebPage', name: 'Kein Rezept' },
+                {
+                    '@type': 'Recipe',
+                    name: 'Rührei',
+                    recipeYield: ['2', '2 Portionen'],
+                    totalTime: 'PT10M',
+                    recipeIngredient: ['4 Eier', 42],
+                    recipeInstructions: [{ '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', text: 'Braten.' }] }],
+                },
+            ],
+        }));
+
+        expect(entry.recipe).toMatchObject({
+            recipeName: 'Rührei',
+            servings: 2,
+            totalTimeMinutes: 10,
+            ingredients: [{ amount: 4, unit: '', name: 'Eier' }],
+            instructions: ['Braten.'],
+        });
+    });
+
+    it('throws for files without recipes', () => {
+        expect(() => parseRecipeImport('{kaputt')).toThrow('kein gültiges JSON');
+        expect(() => parseRecipeImport('42')).toThrow('keine Rezepte');
+    });
+});
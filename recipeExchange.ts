@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { formatIngredient, normalizeRecipe, parseIngredient } from './ingredients';
+import { isRecord, validateRecipe } from './recipeValidation';
+import { normalizeTags } from './recipeSearch';
+import type { Recipe } from './types';
+
+export const EXPORT_FORMAT = 'azubi-rezepte';
+// Bump when the exported recipe shape changes incompatibly; `readVersionedExport` must keep reading older versions.
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'jsonld';
+
+export interface RecipeExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    recipes: Recipe[];
+}
+
+/** One recipe found in an import file, either usable or with the reasons it isn't. */
+export interface ImportEntry {
+    label: string;
+    recipe?: Recipe;
+    errors: string[];
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+// Ids belong to the local database and object URLs only live as long as the page.
+function toPortableRecipe({ id, imageUrl, ...recipe }: Recipe): Recipe {
+    return imageUrl?.startsWith('data:') ? { ...recipe, imageUrl } : recipe;
+}
+
+// --- Export ---
+export function recipesToJson(recipes: Recipe[]): string {
+    const data: RecipeExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        recipes: recipes.map(toPortableRecipe),
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+export function recipeToMarkdown(recipe: Recipe): string {
+    const facts = [
+        `${recipe.servings} Portionen`,
+        recipe.totalTimeMinutes ? `${recipe.totalTimeMinutes} Min.` : '',
+        recipe.difficulty ?? '',
+    ].filter(Boolean);
+    const lines = [`# ${recipe.recipeName}`, ''];
+    if (recipe.description) lines.push(recipe.description, '');
+    lines.push(`*${facts.join(' · ')}*`, '');
+    if (recipe.tags?.length) lines.push(`Tags: ${recipe.tags.join(', ')}`, '');
+    lines.push('## Zutaten', '');
+    recipe.ingredients.forEach(ingredient => lines.push(`- ${formatIngredient(ingredient)}`));
+    lines.push('', '## Anleitung', '');
+    recipe.instructions.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+    return lines.join('\n') + '\n';
+}
+
+export function recipesToMarkdown(recipes: Recipe[]): string {
+    return recipes.map(recipeToMarkdown).join('\n---\n\n');
+}
+
+function minutesToIsoDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+/** A schema.org `Recipe` as understood by search engines and most recipe apps. */
+export function recipeToJsonLd(recipe: Recipe): Record<string, unknown> {
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Recipe',
+        name: recipe.recipeName,
+        description: recipe.description,
+        recipeYield: `${recipe.servings} Portionen`,
+        ...(recipe.totalTimeMinutes ? { totalTime: minutesToIsoDuration(recipe.totalTimeMinutes) } : {}),
+        ...(recipe.tags?.length ? { keywords: recipe.tags.join(', ') } : {}),
+        ...(recipe.createdAt ? { dateCreated: recipe.createdAt } : {}),
+        ...(recipe.estimatedCostPerServing !== undefined ? {
+            estimatedCost: { '@type': 'MonetaryAmount', currency: 'EUR', value: recipe.estimatedCostPerServing * recipe.servings },
+        } : {}),
+        recipeIngredient: recipe.ingredients.map(i => formatIngredient(i)),
+        recipeInstructions: recipe.instructions.map(text => ({ '@type': 'HowToStep', text })),
+    };
+}
+
+export function recipesToJsonLd(recipes: Recipe[]): string {
+    const items = recipes.map(recipeToJsonLd);
+    if (items.length === 1) {
+        return JSON.stringify(items[0], null, 2);
+    }
+    const graph = items.map(({ '@context': _context, ...item }) => item);
+    return JSON.stringify({ '@context': 'https://schema.org', '@graph': graph }, null, 2);
+}
+
+export function exportRecipes(recipes: Recipe[], format: ExportFormat): { content: string; mimeType: string; extension: string } {
+    switch (format) {
+        case 'markdown': return { content: recipesToMarkdown(recipes), mimeType: 'text/markdown', extension: 'md' };
+        case 'jsonld': return { content: recipesToJsonLd(recipes), mimeType: 'application/ld+json', extension: 'jsonld' };
+        default: return { content: recipesToJson(recipes), mimeType: 'application/json', extension: 'json' };
+    }
+}
+
+// --- Import ---
+function isoDurationToMinutes(value: unknown): number | undefined {
+    const match = typeof value === 'string' ? value.match(/^P(?:\d+D)?T?(?:(\d+)H)?(?:(\d+)M)?/) : null;
+    if (!match || (!match[1] && !match[2])) return undefined;
+    return parseInt(match[1] ?? '0', 10) * 60 + parseInt(match[2] ?? '0', 10);
+}
+
+function readInstructions(value: unknown): string[] {
+    if (typeof value === 'string') {
+        return value.split('\n').map(line => line.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((step: unknown): string[] => {
+        if (typeof step === 'string') return [step];
+        if (!isRecord(step)) return [];
+        // HowToSection groups its steps in `itemListElement`.
+        if (step.itemListElement) return readInstructions(step.itemListElement);
+        return typeof step.text === 'string' ? [step.text] : [];
+    });
+}
+
+function isJsonLdRecipe(item: unknown): item is Record<string, unknown> {
+    if (!isRecord(item)) return false;
+    const type = item['@type'];
+    return type === 'Recipe' || (Array.isArray(type) && type.includes('Recipe'));
+}
+
+function fromJsonLd(item: Record<string, unknown>): Record<string, unknown> {
+    const recipeYield = Array.isArray(item.recipeYield) ? item.recipeYield[0] : item.recipeYield;
+    const servings = parseInt(String(recipeYield ?? ''), 10);
+    return {
+        recipeName: item.name,
+        description: typeof item.description === 'string' ? item.description : '',
+        servings: Number.isFinite(servings) ? servings : undefined,
+        totalTimeMinutes: isoDurationToMinutes(item.totalTime),
+        tags: normalizeTags(item.keywords),
+        createdAt: typeof item.dateCreated === 'string' ? item.dateCreated : undefined,
+        ingredients: Array.isArray(item.recipeIngredient) ? item.recipeIngredient.filter((i): i is string => typeof i === 'string').map(parseIngredient) : [],
+        instructions: readInstructions(item.recipeInstructions),
+    };
+}
+
+function readVersionedExport(data: Record<string, unknown>): unknown[] {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error('Die Datei stammt aus einer neueren Version der App und kann nicht gelesen werden.');
+    }
+    return Array.isArray(data.recipes) ? data.recipes : [];
+}
+
+function findRawRecipes(data: unknown): unknown[] {
+    if (Array.isArray(data)) return data.map(item => (isJsonLdRecipe(item) ? fromJsonLd(item) : item));
+    if (!isRecord(data)) throw new Error('Die Datei enthält keine Rezepte in einem bekannten Format.');
+    if (data.format === EXPORT_FORMAT) return readVersionedExport(data);
+    const graph = data['@graph'];
+    if (Array.isArray(graph)) return graph.filter(isJsonLdRecipe).map(fromJsonLd);
+    if (isJsonLdRecipe(data)) return [fromJsonLd(data)];
+    // A single recipe, e.g. copied with "Rezept teilen" in older versions.
+    if ('recipeName' in data) return [data];
+    throw new Error('Die Datei enthält keine Rezepte in einem bekannten Format.');
+}
+
+/**
+ * Reads a JSON export, schema.org JSON-LD or a single recipe. Throws for files
+ * that can't be read at all; problems with single recipes end up in their entry.
+ */
+export function parseRecipeImport(text: string): ImportEntry[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Die Datei ist kein gültiges JSON.');
+    }
+    return findRawRecipes(data).map((raw, index) => {
+        const record = isRecord(raw) ? raw : {};
+        const name = typeof record.recipeName === 'string' ? record.recipeName.trim() : '';
+        const label = name ? `Rezept ${index + 1} („${name}“)` : `Rezept ${index + 1}`;
+        const errors = validateRecipe(raw);
+        if (errors.length > 0) {
+            return { label, errors };
+        }
+        const recipe = toPortableRecipe(normalizeRecipe({ ...record, recipeName: name }));
+        return { label, recipe, errors: [] };
+    });
+}
+
+/** "Nudelauflauf" -> "Nudelauflauf (2)", or the next free number. */
+export function findUniqueName(name: string, existingNames: string[]): string {
+    const taken = new Set(existingNames.map(n => n.toLowerCase()));
+    if (!taken.has(name.toLowerCase())) return name;
+    let counter = 2;
+    while (taken.has(`${name} (${counter})`.toLowerCase())) counter++;
+    return `${name} (${counter})`;
+}
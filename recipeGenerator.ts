@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from "@google/genai";
+import { RESPONSE_SCHEMAS, type ResponseSchemaName } from './schemas';
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+export const GENERATE_PATH = '/recipes/generate';
+// The server rejects longer conversations, so clients have to start a new one before.
+export const MAX_HISTORY_TURNS = 20;
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface InlineImage {
+    mimeType: string;
+    // Base64 without the "data:" prefix.
+    data: string;
+}
+
+export interface GenerateRequest {
+    schema: ResponseSchemaName;
+    prompt: string;
+    image?: InlineImage;
+    // Earlier turns of a conversation, e.g. while refining a recipe.
+    history?: ChatTurn[];
+}
+
+/**
+ * Everything the app asks an LLM for goes through this interface. Answers are
+ * JSON text matching the named schema; parsing and validation stay with the caller.
+ */
+export interface RecipeGenerator {
+    generate(request: GenerateRequest, signal?: AbortSignal): Promise<string>;
+    /** Yields the answer in chunks as it arrives. */
+    generateStream(request: GenerateRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export interface GeneratorConfig {
+    // 'proxy' (default), 'gemini' or 'stub'; set through RECIPE_GENERATOR.
+    kind?: string;
+    // Only for `gemini`: the key ends up in the bundle, so this is meant for local development.
+    apiKey?: string;
+    model?: string;
+    // Only for `proxy`.
+    baseUrl?: string;
+    clientId?: string;
+}
+
+const CLIENT_ID_KEY = 'clientId';
+
+// --- Gemini ---
+function toGeminiContents(request: GenerateRequest) {
+    const parts: ({ text: string } | { inlineData: InlineImage })[] = [{ text: request.prompt }];
+    if (request.image) {
+        parts.push({ inlineData: request.image });
+    }
+    return [
+        ...(request.history ?? []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        { role: 'user', parts },
+    ];
+}
+
+export function createGeminiGenerator(apiKey: string, model = DEFAULT_MODEL): RecipeGenerator {
+    const ai = new GoogleGenAI({ apiKey });
+    const toParams = (request: GenerateRequest, signal?: AbortSignal) => ({
+        model,
+        contents: toGeminiContents(request),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: RESPONSE_SCHEMAS[request.schema],
+            abortSignal: signal,
+        },
+    });
+    return {
+        async generate(request, signal) {
+            const result = await ai.models.generateContent(toParams(request, signal));
+            return (result.text ?? '').trim();
+        },
+        async *generateStream(request, signal) {
+            const stream = await ai.models.generateContentStream(toParams(request, signal));
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+    };
+}
+
+// --- Proxy ---
+async function ensureOk(response: Response): Promise<Response> {
+    if (!response.ok) {
+        // Same shape as the SDK's errors, so `classifyError` recognizes rate limits and server errors.
+        const body = await response.text().catch(() => '');
+        throw new Error(`got status: ${response.status} ${response.statusText}. ${body}`);
+    }
+    return response;
+}
+
+/** Talks to `server/index.ts`, which owns the API key and enforces the rate limits. */
+export function createProxyGenerator(baseUrl = '/api', clientId?: string): RecipeGenerator {
+    const post = (request: GenerateRequest, stream: boolean, signal?: AbortSignal) => fetch(`${baseUrl}${GENERATE_PATH}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(clientId ? { 'X-Client-Id': clientId } : {}),
+        },
+        body: JSON.stringify({ ...request, stream }),
+        signal,
+    }).then(ensureOk);
+
+    return {
+        async generate(request, signal) {
+            const response = await post(request, false, signal);
+            return (await response.text()).trim();
+        },
+        async *generateStream(request, signal) {
+            const response = await post(request, true, signal);
+            if (!response.body) {
+                yield await response.text();
+                return;
+            }
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) return;
+                    if (value) yield value;
+                }
+            } finally {
+                reader.releaseLock();
+            }
+        },
+    };
+}
+
+// --- Stub ---
+const STUB_RECIPE = {
+    recipeName: 'Testrezept: Nudeln mit Tomatensoße',
+    description: 'Ein festes Beispielrezept, das ohne KI-Dienst erzeugt wird.',
+    totalTimeMinutes: 20,
+    difficulty: 'Anfänger',
+    servings: 2,
+    ingredients: [
+        { amount: 250, unit: 'g', name: 'Nudeln' },
+        { amount: 400, unit: 'g', name: 'passierte Tomaten' },
+        { amount: 1, unit: 'Stück', name: 'Zwiebel' },
+        { amount: null, unit: '', name: 'Salz und Pfeffer' },
+    ],
+    estimatedCostPerServing: 1.2,
+    instructions: [
+        'Die Nudeln in Salzwasser nach Packungsanweisung 10 Minuten kochen.',
+        'Die Zwiebel würfeln und in etwas Öl glasig dünsten.',
+        'Die Tomaten dazugeben, 5 Minuten köcheln lassen und würzen.',
+        'Die Nudeln abgießen und mit der Soße vermischen.',
+    ],
+    nutrition: { kcal: 560, protein: 18, fat: 6, carbohydrates: 105 },
+    allergens: ['gluten'],
+    tags: ['vegetarisch', 'schnell', 'günstig'],
+};
+
+function stubAnswer(request: GenerateRequest): string {
+    switch (request.schema) {
+        case 'recipeList':
+            return JSON.stringify({
+                recipes: [1, 2, 3].map(n => ({ ...STUB_RECIPE, recipeName: `${STUB_RECIPE.recipeName} (Variante ${n})` })),
+            });
+        case 'mealPlan':
+            return JSON.stringify({ assignments: [] });
+        default:
+            return JSON.stringify(STUB_RECIPE);
+    }
+}
+
+function stubDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+}
+
+/** Answers every request with the same valid recipe, for tests and working without a key. */
+export function createStubGenerator(delayMs = 300): RecipeGenerator {
+    return {
+        async generate(request, signal) {
+            await stubDelay(delayMs, signal);
+            return stubAnswer(request);
+        },
+        async *generateStream(request, signal) {
+            const answer = stubAnswer(request);
+            const chunkSize = Math.ceil(answer.length / 5);
+            for (let i = 0; i < answer.length; i += chunkSize) {
+                await stubDelay(delayMs / 5, signal);
+                yield answer.slice(i, i + chunkSize);
+            }
+        },
+    };
+}
+
+export function createRecipeGenerator(config: GeneratorConfig): RecipeGenerator {
+    switch (config.kind) {
+        case 'gemini':
+            if (!config.apiKey) {
+                throw new Error('Für RECIPE_GENERATOR=gemini muss GEMINI_API_KEY gesetzt sein.');
+            }
+            return createGeminiGenerator(config.apiKey, config.model);
+        case 'stub':
+            return createStubGenerator();
+        default:
+            return createProxyGenerator(config.baseUrl, config.clientId);
+    }
+}
+
+// --- LocalStorage Functions ---
+/**
+ * A random id per browser so the server can rate-limit users who share an IP
+ * address, e.g. a whole class in the same school network. It is not a login.
+ */
+export function getClientId(): string {
+    let clientId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!clientId) {
+        clientId = typeof crypto.randomUUID === 'function'
+            ? crypto.randomUUID()
+            : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+        localStorage.setItem(CLIENT_ID_KEY, clientId);
+    }
+    return clientId;
+}
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend, createRecipeRepository, type RecipeStoreBackend } from './recipeRepository';
+import type { Recipe } from './types';
+
+function createLegacyStorage(recipes?: unknown) {
+    const items = new Map<string, string>();
+    if (recipes !== undefined) {
+        items.set('savedRecipes', typeof recipes === 'string' ? recipes : JSON.stringify(recipes));
+    }
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        removeItem: (key: string) => { items.delete(key); },
+    };
+}
+
+function createTestRepository(backend: RecipeStoreBackend = createMemoryBackend(), legacyStorage = createLegacyStorage()) {
+    let urlCounter = 0;
+    return createRecipeRepository(backend, {
+        legacyStorage,
+        createObjectURL: () => `blob:test/${++urlCounter}`,
+        revokeObjectURL: () => {},
+        loadImage: async () => new Blob(['image'], { type: 'image/png' }),
+    });
+}
+
+const pasta: Recipe = {
+    recipeName: 'Nudeln mit Tomatensoße',
+    description: 'Schnell und günstig',
+    servings: 2,
+    ingredients: [{ amount: 250, unit: 'g', name: 'Nudeln' }, { amount: 400, unit: 'g', name: 'Tomaten' }],
+    instructions: ['Nudeln kochen.', 'Soße kochen.'],
+};
+
+describe('recipe repository', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    const tick = () => vi.setSystemTime(new Date(Date.now() + 60_000));
+
+    describe('legacy migration', () => {
+        it('moves recipes from localStorage into the backend once', async () => {
+            const backend = createMemoryBackend();
+            const storage = createLegacyStorage([
+                { recipeName: 'Alt', description: '', ingredients: ['200 g Reis'], instructions: ['Kochen.'] },
+                { recipeName: 'Älter', description: '', ingredients: ['1 Ei'], instructions: ['Braten.'] },
+            ]);
+
+            const recipes = await createTestRepository(backend, storage).getSavedRecipes();
+
+            expect(recipes.map(r => r.recipeName)).toEqual(['Alt', 'Älter']);
+            expect(recipes.every(r => r.id)).toBe(true);
+            expect(recipes[0].ingredients).toEqual([{ amount: 200, unit: 'g', name: 'Reis' }]);
+            expect(recipes[0].servings).toBe(4);
+            expect(storage.items.has('savedRecipes')).toBe(false);
+
+            // Even if the old data came back, it isn't imported a second time.
+            storage.items.set('savedRecipes', JSON.stringify([{ recipeName: 'Alt', description: '', ingredients: ['x'], instructions: ['y'] }]));
+            expect(await createTestRepository(backend, storage).getSavedRecipes()).toHaveLength(2);
+        });
+
+        it('writes nothing and retries when storing the migrated recipes fails', async () => {
+            const backend = createMemoryBackend();
+            const putMany = backend.putMany;
+            backend.putMany = vi.fn()
+                .mockRejectedValueOnce(new DOMException('Quota exceeded', 'QuotaExceededError'))
+                .mockImplementation(putMany);
+            const storage = createLegacyStorage([pasta, { ...pasta, recipeName: 'Zweites' }]);
+            const repository = createTestRepository(backend, storage);
+
+            await expect(repository.getSavedRecipes()).rejects.toThrow('Quota exceeded');
+            expect(await backend.getAll()).toEqual([]);
+            expect(storage.items.has('savedRecipes')).toBe(true);
+
+            expect(await repository.getSavedRecipes()).toHaveLength(2);
+            expect(storage.items.has('savedRecipes')).toBe(false);
+        });
+
+        it('keeps unreadable legacy data and still works', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const storage = createLegacyStorage('{kaputt');
+            const repository = createTestRepository(createMemoryBackend(), storage);
+
+            expect(await repository.getSavedRecipes()).toEqual([]);
+            await repository.saveRecipe(pasta, { source: 'manual' });
+            expect(await repository.getSavedRecipes()).toHaveLength(1);
+            expect(storage.items.get('savedRecipes')).toBe('{kaputt');
+        });
+    });
+
+    describe('saving', () => {
+        it('gives saved recipes an id and finds them by id and name', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe(pasta, { source: 'ai' });
+
+            expect(saved.id).toBeTruthy();
+            expect(await repository.getRecipe(saved.id!)).toEqual(saved);
+            expect(await repository.findRecipeByName('nudeln mit tomatensoße')).toEqual(saved);
+        });
+
+        it('updates a recipe in place and rejects unknown ids', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe(pasta, { source: 'manual' });
+
+            const updated = await repository.updateRecipe(saved.id!, { ...saved, servings: 4 }, { source: 'manual' });
+
+            expect(updated.id).toBe(saved.id);
+            expect((await repository.getSavedRecipes()).map(r => r.servings)).toEqual([4]);
+            await expect(repository.updateRecipe('unbekannt', pasta, { source: 'manual' })).rejects.toThrow();
+        });
+
+        it('stores images as blobs and keeps them when the recipe changes', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe({ ...pasta, imageUrl: 'data:image/png;base64,AAAA' }, { source: 'manual' });
+
+            expect(saved.imageUrl).toMatch(/^blob:test\//);
+            const updated = await repository.updateRecipe(saved.id!, { ...saved, description: 'Neu' }, { source: 'manual' });
+            expect(updated.imageUrl).toBe(saved.imageUrl);
+        });
+
+        it('deletes a recipe together with its versions', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe(pasta, { source: 'manual' });
+
+            await repository.removeRecipe(saved.id!);
+
+            expect(await repository.getRecipe(saved.id!)).toBeUndefined();
+            expect(await repository.getSavedRecipes()).toEqual([]);
+            expect(await repository.getVersions(saved.id!)).toEqual([]);
+        });
+    });
+
+    describe('versions', () => {
+        it('lists versions newest first and skips saves without changes', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe(pasta, { source: 'ai' });
+            tick();
+            await repository.updateRecipe(saved.id!, { ...saved, servings: 3 }, { source: 'manual', note: 'Mehr Hunger' });
+            tick();
+            await repository.updateRecipe(saved.id!, { ...saved, servings: 3 }, { source: 'manual' });
+            tick();
+            await repository.updateRecipe(saved.id!, { ...saved, servings: 3, lastCookedAt: new Date().toISOString() }, { source: 'manual' });
+
+            const versions = await repository.getVersions(saved.id!);
+
+            expect(versions.map(v => [v.source, v.recipe.servings, v.note])).toEqual([
+                ['manual', 3, 'Mehr Hunger'],
+                ['ai', 2, undefined],
+            ]);
+            expect(versions[0].recipe).not.toHaveProperty('id');
+        });
+
+        it('keeps at most 50 versions per recipe', async () => {
+            const repository = createTestRepository();
+            const saved = await repository.saveRecipe(pasta, { source: 'manual' });
+            for (let servings = 2; servings <= 60; servings++) {
+                tick();
+                await repository.updateRecipe(saved.id!, { ...saved, servings }, { source: 'manual' });
+            }
+
+            const versions = await repository.getVersions(saved.id!);
+
+            expect(versions).toHaveLength(50);
+            expect(versions[0].recipe.servings).toBe(60);
+        });
+    });
+});
@@ -0,0 +1,385 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { normalizeRecipe } from './ingredients';
+import type { Recipe } from './types';
+
+/** What is persisted per recipe: the recipe without its display URL, plus the image as a Blob. */
+export interface RecipeRecord extends Omit<Recipe, 'imageUrl' | 'id'> {
+    id: string;
+    schemaVersion: number;
+    image?: Blob;
+    // Changes whenever the image changes, so object URLs can be cached.
+    imageId?: string;
+}
+
+export type VersionSource = 'ai' | 'manual' | 'import';
+
+/** Why a recipe is saved; each save that changes the recipe is kept as a version. */
+export interface VersionInfo {
+    source: VersionSource;
+    // Shown in the history, e.g. "Wiederhergestellt aus der Version vom …".
+    note?: string;
+}
+
+export interface RecipeVersion extends VersionInfo {
+    id: string;
+    recipeId: string;
+    createdAt: string;
+    // Without id and image; a copy of every photo would fill the storage quickly.
+    recipe: Recipe;
+}
+
+export interface RecipeStoreBackend {
+    getAll(): Promise<RecipeRecord[]>;
+    get(id: string): Promise<RecipeRecord | undefined>;
+    put(record: RecipeRecord): Promise<void>;
+    /** Stores all records and meta values together, or nothing if one of them fails. */
+    putMany(records: RecipeRecord[], meta: Record<string, unknown>): Promise<void>;
+    delete(id: string): Promise<void>;
+    getMeta<T>(key: string): Promise<T | undefined>;
+    setMeta(key: string, value: unknown): Promise<void>;
+    getVersions(recipeId: string): Promise<RecipeVersion[]>;
+    putVersion(version: RecipeVersion): Promise<void>;
+    deleteVersions(ids: string[]): Promise<void>;
+}
+
+export interface RecipeRepository {
+    getSavedRecipes(): Promise<Recipe[]>;
+    getRecipe(id: string): Promise<Recipe | undefined>;
+    findRecipeByName(name: string): Promise<Recipe | undefined>;
+    saveRecipe(recipe: Recipe, info: VersionInfo): Promise<Recipe>;
+    updateRecipe(id: string, recipe: Recipe, info: VersionInfo): Promise<Recipe>;
+    removeRecipe(id: string): Promise<void>;
+    /** Newest first. */
+    getVersions(recipeId: string): Promise<RecipeVersion[]>;
+}
+
+export interface RepositoryOptions {
+    // Where recipes lived before IndexedDB; read once and then cleared.
+    legacyStorage?: Pick<Storage, 'getItem' | 'removeItem'>;
+    createObjectURL?: (blob: Blob) => string;
+    revokeObjectURL?: (url: string) => void;
+    loadImage?: (url: string) => Promise<Blob>;
+}
+
+const DB_NAME = 'azubi-rezepte';
+// Bump together with a new `case` in `upgradeDatabase` when stores or indexes change.
+const DB_VERSION = 2;
+// Bump together with `upgradeRecord` when the shape of a stored recipe changes.
+export const RECORD_SCHEMA_VERSION = 1;
+
+const RECIPES_STORE = 'recipes';
+const META_STORE = 'meta';
+const VERSIONS_STORE = 'versions';
+const MAX_VERSIONS_PER_RECIPE = 50;
+const LEGACY_STORAGE_KEY = 'savedRecipes';
+const LEGACY_MIGRATION_KEY = 'legacyMigrationDone';
+
+export function createId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function upgradeRecord(record: RecipeRecord): RecipeRecord {
+    if (record.schemaVersion === RECORD_SCHEMA_VERSION) {
+        return record;
+    }
+    // Version 0 had no guarantees about ingredients or servings.
+    const { imageUrl, id, ...recipe } = normalizeRecipe(record);
+    return { ...recipe, id: record.id, image: record.image, imageId: record.imageId, schemaVersion: RECORD_SCHEMA_VERSION };
+}
+
+/** The part of a recipe that is versioned; cooking it doesn't make a new version. */
+function toSnapshot(record: RecipeRecord): Recipe {
+    const { id, schemaVersion, image, imageId, lastCookedAt, ...recipe } = upgradeRecord(record);
+    return recipe;
+}
+
+// Key order differs between a recipe from the form and one read back from the store.
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+// --- IndexedDB Backend ---
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+    // Each case falls through to the next, so any old version is brought up to date step by step.
+    switch (oldVersion) {
+        case 0:
+            db.createObjectStore(RECIPES_STORE, { keyPath: 'id' });
+            db.createObjectStore(META_STORE);
+        case 1:
+            db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex('recipeId', 'recipeId');
+    }
+}
+
+export function createIndexedDbBackend(name = DB_NAME, factory: IDBFactory = indexedDB): RecipeStoreBackend {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const open = () => {
+        dbPromise ??= new Promise((resolve, reject) => {
+            const request = factory.open(name, DB_VERSION);
+            request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return dbPromise;
+    };
+
+    // Only a completed transaction is on disk; quota errors show up here.
+    const whenComplete = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+    const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+        const db = await open();
+        const transaction = db.transaction(storeName, mode);
+        const result = await requestToPromise(action(transaction.objectStore(storeName)));
+        if (mode === 'readwrite') {
+            await whenComplete(transaction);
+        }
+        return result;
+    };
+
+    return {
+        getAll: () => run(RECIPES_STORE, 'readonly', store => store.getAll() as IDBRequest<RecipeRecord[]>),
+        get: (id) => run(RECIPES_STORE, 'readonly', store => store.get(id) as IDBRequest<RecipeRecord | undefined>),
+        put: async (record) => { await run(RECIPES_STORE, 'readwrite', store => store.put(record)); },
+        putMany: async (records, meta) => {
+            const db = await open();
+            const transaction = db.transaction([RECIPES_STORE, META_STORE], 'readwrite');
+            const recipes = transaction.objectStore(RECIPES_STORE);
+            const metaStore = transaction.objectStore(META_STORE);
+            records.forEach(record => recipes.put(record));
+            Object.entries(meta).forEach(([key, value]) => metaStore.put(value, key));
+            await whenComplete(transaction);
+        },
+        delete: (id) => run(RECIPES_STORE, 'readwrite', store => store.delete(id)),
+        getMeta: <T>(key: string) => run(META_STORE, 'readonly', store => store.get(key) as IDBRequest<T | undefined>),
+        setMeta: async (key, value) => { await run(META_STORE, 'readwrite', store => store.put(value, key)); },
+        getVersions: (recipeId) => run(VERSIONS_STORE, 'readonly', store => store.index('recipeId').getAll(recipeId) as IDBRequest<RecipeVersion[]>),
+        putVersion: async (version) => { await run(VERSIONS_STORE, 'readwrite', store => store.put(version)); },
+        deleteVersions: async (ids) => {
+            const db = await open();
+            const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+            const store = transaction.objectStore(VERSIONS_STORE);
+            ids.forEach(id => store.delete(id));
+            await whenComplete(transaction);
+        },
+    };
+}
+
+// --- In-Memory Backend ---
+/** Used when IndexedDB isn't available (e.g. some private browsing modes); nothing survives a reload. */
+export function createMemoryBackend(initialRecords: RecipeRecord[] = []): RecipeStoreBackend {
+    const records = new Map(initialRecords.map(record => [record.id, { ...record }]));
+    const meta = new Map<string, unknown>();
+    const versions = new Map<string, RecipeVersion>();
+    return {
+        getAll: async () => [...records.values()].map(record => ({ ...record })),
+        get: async (id) => {
+            const record = records.get(id);
+            return record ? { ...record } : undefined;
+        },
+        put: async (record) => { records.set(record.id, { ...record }); },
+        putMany: async (newRecords, newMeta) => {
+            newRecords.forEach(record => records.set(record.id, { ...record }));
+            Object.entries(newMeta).forEach(([key, value]) => meta.set(key, value));
+        },
+        delete: async (id) => { records.delete(id); },
+        getMeta: async <T>(key: string) => meta.get(key) as T | undefined,
+        setMeta: async (key, value) => { meta.set(key, value); },
+        getVersions: async (recipeId) => [...versions.values()].filter(v => v.recipeId === recipeId).map(v => ({ ...v })),
+        putVersion: async (version) => { versions.set(version.id, { ...version }); },
+        deleteVersions: async (ids) => { ids.forEach(id => versions.delete(id)); },
+    };
+}
+
+// --- Images ---
+function dataUrlToBlob(dataUrl: string): Blob {
+    const [header, data] = dataUrl.split(',', 2);
+    const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+    if (!header.includes(';base64')) {
+        return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+async function defaultLoadImage(url: string): Promise<Blob> {
+    if (url.startsWith('data:')) {
+        return dataUrlToBlob(url);
+    }
+    const response = await fetch(url);
+    return response.blob();
+}
+
+// --- Repository ---
+export function createRecipeRepository(backend: RecipeStoreBackend, options: RepositoryOptions = {}): RecipeRepository {
+    const createObjectURL = options.createObjectURL ?? ((blob: Blob) => URL.createObjectURL(blob));
+    const revokeObjectURL = options.revokeObjectURL ?? ((url: string) => URL.revokeObjectURL(url));
+    const loadImage = options.loadImage ?? defaultLoadImage;
+    // Object URLs per recipe, so re-rendering doesn't create a new URL every time.
+    const imageUrls = new Map<string, { imageId: string; url: string }>();
+
+    const toRecipe = (stored: RecipeRecord): Recipe => {
+        const record = upgradeRecord(stored);
+        const { image, imageId, schemaVersion, ...recipe } = record;
+        if (!image || !imageId) {
+            return recipe;
+        }
+        let cached = imageUrls.get(record.id);
+        if (!cached || cached.imageId !== imageId) {
+            if (cached) revokeObjectURL(cached.url);
+            cached = { imageId, url: createObjectURL(image) };
+            imageUrls.set(record.id, cached);
+        }
+        return { ...recipe, imageUrl: cached.url };
+    };
+
+    const toRecord = async (id: string, recipe: Recipe, previous?: RecipeRecord): Promise<RecipeRecord> => {
+        const { imageUrl, id: _id, ...data } = recipe;
+        const record: RecipeRecord = { ...data, id, schemaVersion: RECORD_SCHEMA_VERSION };
+        if (!imageUrl) {
+            return record;
+        }
+        // The URL we handed out for this recipe still points at the stored image.
+        if (previous?.image && imageUrls.get(id)?.url === imageUrl) {
+            return { ...record, image: previous.image, imageId: previous.imageId };
+        }
+        return { ...record, image: await loadImage(imageUrl), imageId: createId() };
+    };
+
+    const migrateLegacyStorage = async () => {
+        const storage = options.legacyStorage;
+        if (!storage || await backend.getMeta<boolean>(LEGACY_MIGRATION_KEY)) {
+            return;
+        }
+        let legacyRecipes: unknown;
+        try {
+            legacyRecipes = JSON.parse(storage.getItem(LEGACY_STORAGE_KEY) ?? '[]');
+        } catch (error) {
+            // The old data stays where it is; the new storage works without it.
+            console.error("Alte Rezepte konnten nicht gelesen werden:", error);
+            return;
+        }
+        const records: RecipeRecord[] = [];
+        for (const legacy of Array.isArray(legacyRecipes) ? legacyRecipes : []) {
+            const recipe = normalizeRecipe(legacy);
+            try {
+                records.push(await toRecord(createId(), recipe));
+            } catch (error) {
+                // A broken image must not cost the user the whole recipe.
+                console.error("Bild konnte nicht übernommen werden:", error);
+                records.push(await toRecord(createId(), { ...recipe, imageUrl: undefined }));
+            }
+        }
+        // One transaction with the "done" flag: a failed migration leaves nothing behind
+        // and is simply repeated, a successful one never runs twice.
+        await backend.putMany(records, { [LEGACY_MIGRATION_KEY]: true });
+        storage.removeItem(LEGACY_STORAGE_KEY);
+    };
+
+    const getVersions = async (recipeId: string) =>
+        (await backend.getVersions(recipeId)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const recordVersion = async (record: RecipeRecord, info: VersionInfo, previous?: RecipeRecord) => {
+        const versions = await getVersions(record.id);
+        const recipe = toSnapshot(record);
+        if (versions.length > 0 && stableStringify(versions[0].recipe) === stableStringify(recipe)) {
+            return;
+        }
+        if (versions.length === 0 && previous) {
+            // Saved before there was a history; keep what it looked like as the first version.
+            await backend.putVersion({
+                id: createId(), recipeId: record.id, createdAt: previous.createdAt ?? new Date().toISOString(),
+                source: 'manual', note: 'Stand vor dem Versionsverlauf', recipe: toSnapshot(previous),
+            });
+        }
+        await backend.putVersion({ ...info, id: createId(), recipeId: record.id, createdAt: new Date().toISOString(), recipe });
+        // The oldest versions go once there are too many; the new one is already stored.
+        const outdated = versions.slice(MAX_VERSIONS_PER_RECIPE - 1);
+        if (outdated.length > 0) {
+            await backend.deleteVersions(outdated.map(v => v.id));
+        }
+    };
+
+    let ready: Promise<void> | null = null;
+    const whenReady = () => {
+        // A failed migration (e.g. storage full) is tried again on the next call instead of failing every call.
+        ready ??= migrateLegacyStorage().catch(error => {
+            ready = null;
+            throw error;
+        });
+        return ready;
+    };
+
+    return {
+        async getSavedRecipes() {
+            await whenReady();
+            return (await backend.getAll()).map(toRecipe);
+        },
+        async getRecipe(id) {
+            await whenReady();
+            const record = await backend.get(id);
+            return record ? toRecipe(record) : undefined;
+        },
+        async findRecipeByName(name) {
+            const recipes = await this.getSavedRecipes();
+            return recipes.find(r => r.recipeName.toLowerCase() === name.toLowerCase());
+        },
+        async saveRecipe(recipe, info) {
+            await whenReady();
+            const record = await toRecord(createId(), recipe);
+            await backend.put(record);
+            await recordVersion(record, info);
+            return toRecipe(record);
+        },
+        async updateRecipe(id, recipe, info) {
+            await whenReady();
+            const previous = await backend.get(id);
+            if (!previous) {
+                throw new Error(`Rezept ${id} existiert nicht.`);
+            }
+            const record = await toRecord(id, recipe, previous);
+            await backend.put(record);
+            await recordVersion(record, info, previous);
+            return toRecipe(record);
+        },
+        async removeRecipe(id) {
+            await whenReady();
+            await backend.delete(id);
+            await backend.deleteVersions((await backend.getVersions(id)).map(v => v.id));
+            const cached = imageUrls.get(id);
+            if (cached) {
+                revokeObjectURL(cached.url);
+                imageUrls.delete(id);
+            }
+        },
+        async getVersions(recipeId) {
+            await whenReady();
+            return getVersions(recipeId);
+        },
+    };
+}
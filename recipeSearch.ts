@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Recipe } from './types';
+
+export const DIFFICULTIES = ['Anfänger', 'Fortgeschritten', 'Experte'];
+
+// Offered to Gemini and as suggestions in the forms; users can add their own.
+export const SUGGESTED_TAGS = ['vegetarisch', 'vegan', 'schnell', 'günstig', 'Meal-Prep', 'Frühstück', 'Dessert'];
+
+export type RecipeSortOrder = 'name' | 'createdAt' | 'lastCooked';
+
+export interface RecipeQuery {
+    search: string;
+    difficulty: string;
+    tag: string;
+    sort: RecipeSortOrder;
+}
+
+export const DEFAULT_RECIPE_QUERY: RecipeQuery = { search: '', difficulty: '', tag: '', sort: 'createdAt' };
+
+/** Tags are compared case-insensitively, but the first spelling a user chose is kept. */
+export function normalizeTags(tags: unknown): string[] {
+    const list = typeof tags === 'string' ? tags.split(',') : Array.isArray(tags) ? tags : [];
+    const seen = new Set<string>();
+    return list
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map(tag => tag.trim().replace(/^#/, ''))
+        .filter(tag => {
+            const key = tag.toLowerCase();
+            if (!tag || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+}
+
+export function collectTags(recipes: Recipe[]): string[] {
+    return normalizeTags(recipes.flatMap(r => r.tags ?? []))
+        .sort((a, b) => a.localeCompare(b, 'de-DE'));
+}
+
+function searchableText(recipe: Recipe): string {
+    return [
+        recipe.recipeName,
+        recipe.description,
+        ...recipe.ingredients.map(i => i.name),
+        ...(recipe.tags ?? []),
+    ].join(' ').toLowerCase();
+}
+
+/** Every word of the search has to appear somewhere in the recipe. */
+export function matchesQuery(recipe: Recipe, query: RecipeQuery): boolean {
+    if (query.difficulty && recipe.difficulty !== query.difficulty) {
+        return false;
+    }
+    if (query.tag && !(recipe.tags ?? []).some(tag => tag.toLowerCase() === query.tag.toLowerCase())) {
+        return false;
+    }
+    const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+    const text = searchableText(recipe);
+    return words.every(word => text.includes(word));
+}
+
+export function sortRecipes(recipes: Recipe[], sort: RecipeSortOrder): Recipe[] {
+    const byName = (a: Recipe, b: Recipe) => a.recipeName.localeCompare(b.recipeName, 'de-DE');
+    // ISO dates sort as strings; recipes without a date go last.
+    const byDateDesc = (a?: string, b?: string) => (b ?? '').localeCompare(a ?? '');
+    return [...recipes].sort((a, b) => {
+        switch (sort) {
+            case 'createdAt': return byDateDesc(a.createdAt, b.createdAt) || byName(a, b);
+            case 'lastCooked': return byDateDesc(a.lastCookedAt, b.lastCookedAt) || byName(a, b);
+            default: return byName(a, b);
+        }
+    });
+}
+
+export function filterRecipes(recipes: Recipe[], query: RecipeQuery): Recipe[] {
+    return sortRecipes(recipes.filter(recipe => matchesQuery(recipe, query)), query.sort);
+}
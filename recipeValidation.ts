@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+function isPresent(value: unknown): boolean {
+    return value !== undefined && value !== null;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isStringList(value: unknown): boolean {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isDateString(value: unknown): boolean {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/** Optional fields are checked too: imported files and shared recipes can contain anything. */
+function validateOptionalFields(recipe: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    if (isPresent(recipe.totalTimeMinutes) && !isNonNegativeNumber(recipe.totalTimeMinutes)) {
+        errors.push('Die Zubereitungszeit ist keine gültige Zahl.');
+    }
+    if (isPresent(recipe.difficulty) && typeof recipe.difficulty !== 'string') {
+        errors.push('Der Schwierigkeitsgrad ist ungültig.');
+    }
+    if (isPresent(recipe.estimatedCostPerServing) && !isNonNegativeNumber(recipe.estimatedCostPerServing)) {
+        errors.push('Die Kosten pro Portion sind keine gültige Zahl.');
+    }
+    if (isPresent(recipe.tags) && !isStringList(recipe.tags)) {
+        errors.push('Die Tags sind ungültig.');
+    }
+    if (isPresent(recipe.allergens) && !isStringList(recipe.allergens)) {
+        errors.push('Die Allergene sind ungültig.');
+    }
+    if (isPresent(recipe.nutrition)) {
+        const nutrition = recipe.nutrition;
+        const fields = ['kcal', 'protein', 'fat', 'carbohydrates'];
+        if (!isRecord(nutrition) || !fields.every(field => isNonNegativeNumber(nutrition[field]))) {
+            errors.push('Die Nährwerte sind ungültig.');
+        }
+    }
+    if (isPresent(recipe.imageUrl) && typeof recipe.imageUrl !== 'string') {
+        errors.push('Das Bild ist ungültig.');
+    }
+    if (isPresent(recipe.createdAt) && !isDateString(recipe.createdAt)) {
+        errors.push('Das Erstellungsdatum ist ungültig.');
+    }
+    if (isPresent(recipe.lastCookedAt) && !isDateString(recipe.lastCookedAt)) {
+        errors.push('Das Datum „zuletzt gekocht“ ist ungültig.');
+    }
+    return errors;
+}
+
+/**
+ * Checks that a value has the shape `recipeSchema` asks Gemini for. Returns a
+ * list of human-readable problems; an empty list means the recipe is valid.
+ */
+export function validateRecipe(raw: unknown): string[] {
+    const errors: string[] = [];
+    if (!isRecord(raw)) {
+        return ['Das Rezept ist kein gültiges Objekt.'];
+    }
+    const recipe = raw;
+
+    if (!isNonEmptyString(recipe.recipeName)) {
+        errors.push('Der Rezeptname fehlt.');
+    }
+    if (typeof recipe.description !== 'string') {
+        errors.push('Die Beschreibung fehlt.');
+    }
+    if (recipe.servings !== undefined && !(typeof recipe.servings === 'number' && recipe.servings > 0)) {
+        errors.push('Die Portionen müssen eine positive Zahl sein.');
+    }
+
+    if (!Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0) {
+        errors.push('Die Zutatenliste fehlt oder ist leer.');
+    } else {
+        recipe.ingredients.forEach((ingredient, index) => {
+            // Plain strings are the format of older recipes and are parsed on load.
+            if (isNonEmptyString(ingredient)) return;
+            const { amount, unit, name } = isRecord(ingredient) ? ingredient : {};
+            if (!isNonEmptyString(name)) {
+                errors.push(`Zutat ${index + 1} hat keinen Namen.`);
+            }
+            if (amount !== null && amount !== undefined && typeof amount !== 'number') {
+                errors.push(`Die Menge von Zutat ${index + 1} ist keine Zahl.`);
+            }
+            if (unit !== undefined && typeof unit !== 'string') {
+                errors.push(`Die Einheit von Zutat ${index + 1} ist ungültig.`);
+            }
+        });
+    }
+
+    if (!Array.isArray(recipe.instructions) || recipe.instructions.length === 0) {
+        errors.push('Die Anleitung fehlt oder ist leer.');
+    } else if (!recipe.instructions.every(isNonEmptyString)) {
+        errors.push('Die Anleitung enthält leere oder ungültige Schritte.');
+    }
+
+    return [...errors, ...validateOptionalFields(recipe)];
+}
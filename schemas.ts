@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Type } from "@google/genai";
+import { SUGGESTED_TAGS, DIFFICULTIES } from './recipeSearch';
+import { ALLERGEN_IDS } from './nutrition';
+import { MEALS } from './mealPlan';
+
+// Shared by the browser and the server: requests only name a schema, so the
+// server never forwards a schema chosen by the client.
+export const recipeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    recipeName: {
+      type: Type.STRING,
+      description: "Der Name des Rezepts."
+    },
+    description: {
+        type: Type.STRING,
+        description: "Eine kurze, ansprechende Beschreibung des Gerichts."
+    },
+    totalTimeMinutes: {
+        type: Type.INTEGER,
+        description: "Die gesamte Zubereitungszeit in Minuten."
+    },
+    difficulty: {
+        type: Type.STRING,
+        enum: DIFFICULTIES,
+        description: "Der Schwierigkeitsgrad des Rezepts."
+    },
+    servings: {
+        type: Type.INTEGER,
+        description: "Für wie viele Portionen die Mengenangaben gelten."
+    },
+    ingredients: {
+      type: Type.ARRAY,
+      description: "Eine Liste der Zutaten, die für das Rezept benötigt werden.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          amount: {
+            type: Type.NUMBER,
+            nullable: true,
+            description: "Die Menge als Zahl, z.B. 200 oder 0.5. Leer lassen bei 'nach Geschmack'."
+          },
+          unit: {
+            type: Type.STRING,
+            description: "Die Einheit: g, kg, ml, l, EL, TL, Prise, Stück oder leer."
+          },
+          name: {
+            type: Type.STRING,
+            description: "Der Name der Zutat, z.B. 'Nudeln'."
+          },
+        },
+        required: ["amount", "unit", "name"],
+      }
+    },
+    estimatedCostPerServing: {
+        type: Type.NUMBER,
+        description: "Die geschätzten Kosten pro Portion in Euro bei Discounter-Preisen."
+    },
+    instructions: {
+      type: Type.ARRAY,
+      description: "Eine schrittweise Anleitung zur Zubereitung des Gerichts.",
+      items: { type: Type.STRING }
+    },
+    nutrition: {
+      type: Type.OBJECT,
+      description: "Geschätzte Nährwerte pro Portion.",
+      properties: {
+        kcal: { type: Type.NUMBER, description: "Kilokalorien pro Portion." },
+        protein: { type: Type.NUMBER, description: "Eiweiß in Gramm pro Portion." },
+        fat: { type: Type.NUMBER, description: "Fett in Gramm pro Portion." },
+        carbohydrates: { type: Type.NUMBER, description: "Kohlenhydrate in Gramm pro Portion." },
+      },
+      required: ["kcal", "protein", "fat", "carbohydrates"],
+    },
+    allergens: {
+      type: Type.ARRAY,
+      description: "Alle der 14 EU-Hauptallergene, die in den Zutaten enthalten sind.",
+      items: { type: Type.STRING, enum: ALLERGEN_IDS }
+    },
+    tags: {
+      type: Type.ARRAY,
+      description: `Ein bis drei passende Schlagwörter, bevorzugt aus: ${SUGGESTED_TAGS.join(', ')}.`,
+      items: { type: Type.STRING }
+    },
+  },
+  required: ["recipeName", "description", "totalTimeMinutes", "difficulty", "servings", "ingredients", "instructions", "tags", "nutrition", "allergens"],
+};
+
+export const recipeListSchema = {
+  type: Type.OBJECT,
+  properties: {
+    recipes: {
+      type: Type.ARRAY,
+      description: "Mehrere unterschiedliche Rezeptvorschläge.",
+      items: recipeSchema,
+    },
+  },
+  required: ["recipes"],
+};
+
+export const mealPlanSchema = {
+  type: Type.OBJECT,
+  properties: {
+    assignments: {
+      type: Type.ARRAY,
+      description: "Die Zuordnungen von gespeicherten Rezepten zu freien Plätzen im Wochenplan.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          day: {
+            type: Type.INTEGER,
+            description: "Der Wochentag als Index, 0 = Montag bis 6 = Sonntag."
+          },
+          meal: {
+            type: Type.STRING,
+            enum: [...MEALS],
+            description: "Die Mahlzeit."
+          },
+          recipeName: {
+            type: Type.STRING,
+            description: "Der exakte Name eines der gespeicherten Rezepte."
+          },
+        },
+        required: ["day", "meal", "recipeName"],
+      }
+    },
+  },
+  required: ["assignments"],
+};
+
+export const RESPONSE_SCHEMAS = {
+  recipe: recipeSchema,
+  recipeList: recipeListSchema,
+  mealPlan: mealPlanSchema,
+};
+
+export type ResponseSchemaName = keyof typeof RESPONSE_SCHEMAS;
+
+export function isResponseSchemaName(value: unknown): value is ResponseSchemaName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESPONSE_SCHEMAS, value);
+}
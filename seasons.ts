@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Ingredient, Recipe } from './types';
+
+export const PRODUCE_CATEGORIES = ['Gemüse', 'Obst', 'Salat'] as const;
+export type ProduceCategory = typeof PRODUCE_CATEGORIES[number];
+
+/** When a fruit or vegetable is available from the region, either fresh or from storage. */
+export interface SeasonEntry {
+    name: string;
+    category: ProduceCategory;
+    // 1 = Januar … 12 = Dezember.
+    months: number[];
+}
+
+export interface SeasonalCalendar {
+    // Named in the prompt, e.g. "Deutschland" or "Österreich".
+    region: string;
+    entries: SeasonEntry[];
+}
+
+export interface SeasonalIssue {
+    ingredient: Ingredient;
+    entry: SeasonEntry;
+    // Names of produce of the same kind that is in season instead.
+    swaps: string[];
+}
+
+const SEASONAL_CALENDAR_KEY = 'seasonalCalendar';
+const MAX_SWAPS = 3;
+
+export const MONTH_NAMES = ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'];
+
+const ALL_YEAR = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// Names are singular stems, so "Tomate" also finds "Tomaten" and "Kirschtomaten".
+// Storable produce like Äpfel, Möhren or Kohl counts as regional all winter.
+export const DEFAULT_SEASONAL_CALENDAR: SeasonalCalendar = {
+    region: 'Deutschland',
+    entries: [
+        { name: 'Kartoffel', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Möhre', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Karotte', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Zwiebel', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Weißkohl', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Rotkohl', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Rote Bete', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Sellerie', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Champignon', category: 'Gemüse', months: ALL_YEAR },
+        { name: 'Lauch', category: 'Gemüse', months: [1, 2, 3, 4, 8, 9, 10, 11, 12] },
+        { name: 'Wirsing', category: 'Gemüse', months: [1, 2, 3, 5, 6, 7, 8, 9, 10, 11, 12] },
+        { name: 'Grünkohl', category: 'Gemüse', months: [1, 2, 11, 12] },
+        { name: 'Rosenkohl', category: 'Gemüse', months: [1, 2, 10, 11, 12] },
+        { name: 'Pastinake', category: 'Gemüse', months: [1, 2, 3, 10, 11, 12] },
+        { name: 'Steckrübe', category: 'Gemüse', months: [1, 2, 3, 10, 11, 12] },
+        { name: 'Chinakohl', category: 'Gemüse', months: [1, 2, 8, 9, 10, 11, 12] },
+        { name: 'Kürbis', category: 'Gemüse', months: [8, 9, 10, 11, 12] },
+        { name: 'Spinat', category: 'Gemüse', months: [3, 4, 5, 9, 10, 11] },
+        { name: 'Bärlauch', category: 'Gemüse', months: [3, 4] },
+        { name: 'Spargel', category: 'Gemüse', months: [4, 5, 6] },
+        { name: 'Rhabarber', category: 'Gemüse', months: [4, 5, 6] },
+        { name: 'Radieschen', category: 'Gemüse', months: [4, 5, 6, 7, 8, 9] },
+        { name: 'Kohlrabi', category: 'Gemüse', months: [5, 6, 7, 8, 9, 10] },
+        { name: 'Blumenkohl', category: 'Gemüse', months: [6, 7, 8, 9, 10] },
+        { name: 'Brokkoli', category: 'Gemüse', months: [6, 7, 8, 9, 10] },
+        { name: 'Fenchel', category: 'Gemüse', months: [6, 7, 8, 9, 10] },
+        { name: 'Mangold', category: 'Gemüse', months: [6, 7, 8, 9, 10] },
+        { name: 'Zucchini', category: 'Gemüse', months: [6, 7, 8, 9, 10] },
+        { name: 'Gurke', category: 'Gemüse', months: [6, 7, 8, 9] },
+        { name: 'Grüne Bohne', category: 'Gemüse', months: [7, 8, 9, 10] },
+        { name: 'Tomate', category: 'Gemüse', months: [7, 8, 9, 10] },
+        { name: 'Paprika', category: 'Gemüse', months: [7, 8, 9, 10] },
+        { name: 'Aubergine', category: 'Gemüse', months: [7, 8, 9, 10] },
+        { name: 'Pfifferling', category: 'Gemüse', months: [7, 8, 9, 10] },
+        { name: 'Feldsalat', category: 'Salat', months: [1, 2, 3, 10, 11, 12] },
+        { name: 'Chicorée', category: 'Salat', months: [1, 2, 3, 4, 10, 11, 12] },
+        { name: 'Kopfsalat', category: 'Salat', months: [5, 6, 7, 8, 9, 10] },
+        { name: 'Eisbergsalat', category: 'Salat', months: [6, 7, 8, 9, 10] },
+        { name: 'Rucola', category: 'Salat', months: [5, 6, 7, 8, 9, 10] },
+        { name: 'Apfel', category: 'Obst', months: ALL_YEAR },
+        { name: 'Birne', category: 'Obst', months: [1, 2, 3, 8, 9, 10, 11, 12] },
+        { name: 'Erdbeere', category: 'Obst', months: [5, 6, 7] },
+        { name: 'Kirsche', category: 'Obst', months: [6, 7, 8] },
+        { name: 'Himbeere', category: 'Obst', months: [6, 7, 8, 9] },
+        { name: 'Heidelbeere', category: 'Obst', months: [7, 8, 9] },
+        { name: 'Pflaume', category: 'Obst', months: [7, 8, 9, 10] },
+        { name: 'Zwetschge', category: 'Obst', months: [7, 8, 9, 10] },
+    ],
+};
+
+// Canned, frozen, dried and processed produce can be used all year.
+const PRESERVED_PATTERN = /passiert|gehackte tomate|dose|konserv|getrocknet|tiefgekühlt|tiefkühl|\btk\b|gefroren|eingelegt|gewürzgurke|(mark|mus|saft|püree|marmelade|konfitüre|essig|pulver|öl|kerne)\b/;
+
+// Lower case without umlauts, so "Äpfel" finds "Apfel".
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function getCurrentMonth(now = new Date()): number {
+    return now.getMonth() + 1;
+}
+
+export function getMonthName(month: number): string {
+    return MONTH_NAMES[month - 1] ?? '';
+}
+
+export function isInSeason(entry: SeasonEntry, month: number): boolean {
+    return entry.months.includes(month);
+}
+
+/** The longest calendar name that is part of the ingredient name, like `findPriceEntry`. */
+export function findSeasonEntry(name: string, entries: SeasonEntry[]): SeasonEntry | undefined {
+    if (PRESERVED_PATTERN.test(name.toLowerCase())) return undefined;
+    const normalized = normalizeName(name);
+    return entries
+        .filter(entry => entry.name && normalized.includes(normalizeName(entry.name)))
+        .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+/** E.g. "Mai bis Juli", "Oktober bis März" or "ganzjährig". */
+export function formatSeason(months: number[]): string {
+    if (months.length === 0) return 'nie';
+    if (ALL_YEAR.every(month => months.includes(month))) return 'ganzjährig';
+    const next = (month: number) => month % 12 + 1;
+    const previous = (month: number) => (month + 10) % 12 + 1;
+    // A range starts where the month before isn't part of the season; it may run over New Year.
+    return ALL_YEAR
+        .filter(month => months.includes(month) && !months.includes(previous(month)))
+        .map(start => {
+            let end = start;
+            while (months.includes(next(end))) end = next(end);
+            return start === end ? getMonthName(start) : `${getMonthName(start)} bis ${getMonthName(end)}`;
+        })
+        .join(', ');
+}
+
+export function getSeasonalProduce(calendar: SeasonalCalendar, month: number): SeasonEntry[] {
+    return calendar.entries.filter(entry => entry.name && isInSeason(entry, month));
+}
+
+/**
+ * Ingredients the calendar knows and that are out of season in `month`, each
+ * with in-season produce of the same kind the recipe doesn't use yet.
+ * Produce with a short season comes first, since it's the cheapest while it lasts.
+ */
+export function checkSeasonality(recipe: Recipe, calendar: SeasonalCalendar, month: number): SeasonalIssue[] {
+    const used = recipe.ingredients.map(ingredient => findSeasonEntry(ingredient.name, calendar.entries));
+    const inSeason = getSeasonalProduce(calendar, month)
+        .filter(entry => !used.includes(entry))
+        .sort((a, b) => a.months.length - b.months.length);
+    return recipe.ingredients.flatMap((ingredient, index) => {
+        const entry = used[index];
+        if (!entry || isInSeason(entry, month)) return [];
+        const swaps = inSeason
+            .filter(candidate => candidate.category === entry.category)
+            .slice(0, MAX_SWAPS)
+            .map(candidate => candidate.name);
+        return [{ ingredient, entry, swaps }];
+    });
+}
+
+// --- LocalStorage Functions ---
+export function getSeasonalCalendar(): SeasonalCalendar {
+    const calendarJSON = localStorage.getItem(SEASONAL_CALENDAR_KEY);
+    return calendarJSON ? JSON.parse(calendarJSON) : {
+        ...DEFAULT_SEASONAL_CALENDAR,
+        entries: DEFAULT_SEASONAL_CALENDAR.entries.map(entry => ({ ...entry, months: [...entry.months] })),
+    };
+}
+
+export function saveSeasonalCalendar(calendar: SeasonalCalendar) {
+    localStorage.setItem(SEASONAL_CALENDAR_KEY, JSON.stringify(calendar));
+}
+
+export function resetSeasonalCalendar() {
+    localStorage.removeItem(SEASONAL_CALENDAR_KEY);
+}
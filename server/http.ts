@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { isRecord } from '../recipeValidation';
+
+// Photos of recipe cards are sent as base64.
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string, public headers: Record<string, string> = {}, public data: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/** Like `decodeURIComponent`, but malformed escapes like `%E0%A4%A` are the client's error. */
+export function decodePathSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        throw new HttpError(400, 'Ungültige Adresse.');
+    }
+}
+
+export function sendJson(res: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(data));
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, 'Die Anfrage ist zu groß.');
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+        throw new HttpError(400, 'Die Anfrage ist kein gültiges JSON.');
+    }
+}
+
+/** All endpoints take a JSON object; its fields are checked by the route. */
+export async function readJsonObject(req: IncomingMessage): Promise<Record<string, unknown>> {
+    const body = await readJsonBody(req);
+    if (!isRecord(body)) {
+        throw new HttpError(400, 'Die Anfrage muss ein JSON-Objekt sein.');
+    }
+    return body;
+}
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { classifyError } from '../generation';
+import { isRecord } from '../recipeValidation';
+import { isResponseSchemaName } from '../schemas';
+import {
+    DEFAULT_MODEL, GENERATE_PATH, MAX_HISTORY_TURNS, createGeminiGenerator, createStubGenerator,
+    type ChatTurn, type GenerateRequest, type InlineImage, type RecipeGenerator,
+} from '../recipeGenerator';
+import { createOpenAiCompatibleGenerator } from './openAiGenerator';
+import { createRateLimiter, type RateLimiter } from './rateLimit';
+import { HttpError, decodePathSegment, readJsonObject, sendJson } from './http';
+import { createFileStore } from './workspaceStore';
+import { createWorkspaceRoutes } from './workspaceRoutes';
+
+// Small server that owns the API key: it answers `POST /api/recipes/generate`,
+// hosts the class workspaces under `/api/groups` and serves the built app from `dist`. Configured through environment variables,
+// see README.md.
+const env = process.env;
+const PORT = Number(env.PORT) || 8787;
+const STATIC_DIR = path.resolve(env.STATIC_DIR || 'dist');
+const MAX_PROMPT_LENGTH = 20000;
+const RATE_LIMIT_WINDOW_MS = (Number(env.RATE_LIMIT_WINDOW_MINUTES) || 60) * 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.webmanifest': 'application/manifest+json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+function createGenerator(): RecipeGenerator {
+    switch (env.RECIPE_PROVIDER || 'gemini') {
+        case 'gemini':
+            if (!env.GEMINI_API_KEY) {
+                throw new Error('GEMINI_API_KEY ist nicht gesetzt.');
+            }
+            return createGeminiGenerator(env.GEMINI_API_KEY, env.GEMINI_MODEL || DEFAULT_MODEL);
+        case 'openai':
+            return createOpenAiCompatibleGenerator(
+                env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+                env.OPENAI_API_KEY || '',
+                env.OPENAI_MODEL || 'gpt-4o-mini',
+            );
+        case 'stub':
+            return createStubGenerator();
+        default:
+            throw new Error(`Unbekannter RECIPE_PROVIDER: ${env.RECIPE_PROVIDER}`);
+    }
+}
+
+const generator = createGenerator();
+interface RateLimits {
+    user: RateLimiter;
+    ip: RateLimiter;
+}
+
+// Each browser sends its own id, but a whole class may share one school IP address,
+// so the IP limit is much higher and only stops someone who keeps changing ids.
+const generateLimits: RateLimits = {
+    user: createRateLimiter(Number(env.RATE_LIMIT_PER_USER) || 30, RATE_LIMIT_WINDOW_MS),
+    ip: createRateLimiter(Number(env.RATE_LIMIT_PER_IP) || 600, RATE_LIMIT_WINDOW_MS),
+};
+// Workspace requests cost nothing at the provider but come often, since every sync loads
+// the group and each linked recipe. They get their own budget so syncing can't use up generation.
+const workspaceLimits: RateLimits = {
+    user: createRateLimiter(Number(env.WORKSPACE_RATE_LIMIT_PER_USER) || 600, RATE_LIMIT_WINDOW_MS),
+    ip: createRateLimiter(Number(env.WORKSPACE_RATE_LIMIT_PER_IP) || 12000, RATE_LIMIT_WINDOW_MS),
+};
+const handleWorkspaceRequest = createWorkspaceRoutes(createFileStore(path.resolve(env.WORKSPACE_FILE || 'data/workspace.json')));
+
+// --- Helper Functions ---
+function getClientIp(req: IncomingMessage): string {
+    // Only trust the header when a reverse proxy sets it, otherwise anyone could fake it.
+    const forwarded = env.TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+}
+
+function checkRateLimits(req: IncomingMessage, limiters: RateLimits) {
+    const ip = getClientIp(req);
+    const clientId = String(req.headers['x-client-id'] ?? '').slice(0, 100);
+    const limits = [[limiters.ip, `ip:${ip}`], [limiters.user, clientId ? `user:${clientId}` : `ip:${ip}`]] as const;
+    // Only requests that pass both limits count, so a rejected one doesn't use up the other budget.
+    for (const [limiter, key] of limits) {
+        const result = limiter.check(key);
+        if (!result.allowed) {
+            throw new HttpError(429, 'Zu viele Anfragen. Bitte warte einen Moment.', { 'Retry-After': String(result.retryAfterSeconds) });
+        }
+    }
+    limits.forEach(([limiter, key]) => limiter.record(key));
+}
+
+function isChatTurn(turn: unknown): turn is ChatTurn {
+    return isRecord(turn) && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string';
+}
+
+function isInlineImage(image: unknown): image is InlineImage {
+    return isRecord(image) && typeof image.mimeType === 'string' && image.mimeType.startsWith('image/') && typeof image.data === 'string';
+}
+
+// Only the schemas of the app can be requested, which keeps the endpoint from
+// being used as a general-purpose chatbot on our key.
+function parseGenerateRequest(body: Record<string, unknown>): GenerateRequest {
+    const { schema, prompt } = body;
+    if (!isResponseSchemaName(schema)) {
+        throw new HttpError(400, 'Unbekanntes Schema.');
+    }
+    if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+        throw new HttpError(400, 'Der Prompt fehlt oder ist zu lang.');
+    }
+    const history = body.history ?? [];
+    if (!Array.isArray(history) || history.length > MAX_HISTORY_TURNS || !history.every(isChatTurn)
+        || history.some(turn => turn.text.length > MAX_PROMPT_LENGTH)) {
+        throw new HttpError(400, 'Der Verlauf ist ungültig.');
+    }
+    const image = body.image;
+    if (image !== undefined && !isInlineImage(image)) {
+        throw new HttpError(400, 'Das Bild ist ungültig.');
+    }
+    return {
+        schema,
+        prompt,
+        history: history.map(({ role, text }) => ({ role, text })),
+        ...(isInlineImage(image) ? { image: { mimeType: image.mimeType, data: image.data } } : {}),
+    };
+}
+
+// --- Routes ---
+async function handleGenerate(req: IncomingMessage, res: ServerResponse) {
+    checkRateLimits(req, generateLimits);
+    const body = await readJsonObject(req);
+    const request = parseGenerateRequest(body);
+
+    // Stop the provider request when the user cancels in the browser.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    if (body.stream !== true) {
+        const text = await generator.generate(request, controller.signal);
+        res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+        res.end(text);
+        return;
+    }
+
+    const chunks = generator.generateStream(request, controller.signal)[Symbol.asyncIterator]();
+    // Errors before the first chunk still get a proper status code.
+    let next = await chunks.next();
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+    try {
+        for (; !next.done; next = await chunks.next()) {
+            res.write(next.value);
+        }
+        res.end();
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error("Fehler während des Streamings:", error);
+        }
+        // The status is already sent; a broken connection lets the client retry.
+        res.destroy();
+    }
+}
+
+async function serveStatic(pathname: string, req: IncomingMessage, res: ServerResponse) {
+    const filePath = path.join(STATIC_DIR, path.normalize(decodePathSegment(pathname)));
+    let target = filePath.startsWith(STATIC_DIR) ? filePath : '';
+    if (!target || !(await stat(target).catch(() => null))?.isFile()) {
+        // Unknown paths get the app itself; the service worker does the same offline.
+        target = path.join(STATIC_DIR, 'index.html');
+    }
+    const content = await readFile(target).catch(() => null);
+    if (!content) {
+        throw new HttpError(404, 'Nicht gefunden. Wurde `npm run build` ausgeführt?');
+    }
+    const isAsset = target.startsWith(path.join(STATIC_DIR, 'assets'));
+    res.writeHead(200, {
+        'Content-Type': MIME_TYPES[path.extname(target)] ?? 'application/octet-stream',
+        // Files in /assets have a content hash in their name; everything else must be revalidated.
+        'Cache-Control': isAsset ? 'public, max-age=31536000, immutable' : 'no-cache',
+    });
+    res.end(req.method === 'HEAD' ? undefined : content);
+}
+
+function handleError(res: ServerResponse, error: unknown) {
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, ...error.data }, error.headers);
+        return;
+    }
+    const classified = classifyError(error);
+    if (classified.kind === 'aborted') {
+        res.destroy();
+        return;
+    }
+    console.error("Fehler bei der Anfrage an den KI-Dienst:", error);
+    // The client retries on 429 and 5xx, so the provider's rate limits are passed on.
+    const status = classified.kind === 'rateLimit' ? 429 : classified.kind === 'invalidResponse' || classified.kind === 'unknown' ? 500 : 502;
+    sendJson(res, status, { error: classified.message });
+}
+
+const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        if (pathname === `/api${GENERATE_PATH}`) {
+            if (req.method !== 'POST') {
+                throw new HttpError(405, 'Nur POST ist erlaubt.', { Allow: 'POST' });
+            }
+            await handleGenerate(req, res);
+        } else if (pathname === '/api/groups' || pathname.startsWith('/api/groups/')) {
+            checkRateLimits(req, workspaceLimits);
+            await handleWorkspaceRequest(req, res, pathname);
+        } else if (pathname.startsWith('/api/')) {
+            throw new HttpError(404, 'Nicht gefunden.');
+        } else if (req.method === 'GET' || req.method === 'HEAD') {
+            await serveStatic(pathname, req, res);
+        } else {
+            throw new HttpError(405, 'Methode nicht erlaubt.', { Allow: 'GET, HEAD' });
+        }
+    } catch (error) {
+        handleError(res, error);
+    }
+});
+
+server.listen(PORT);
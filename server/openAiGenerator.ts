@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Schema } from '@google/genai';
+import { RESPONSE_SCHEMAS } from '../schemas';
+import type { GenerateRequest, RecipeGenerator } from '../recipeGenerator';
+
+// The schemas use Gemini's `Type` values ("OBJECT", "STRING", ...) and `nullable`;
+// everything else is plain JSON Schema already.
+interface JsonSchema extends Omit<Schema, 'type' | 'nullable' | 'properties' | 'items'> {
+    type: string | string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+}
+
+function toJsonSchema(schema: Schema): JsonSchema {
+    const { type, nullable, properties, items, ...rest } = schema;
+    const jsonType = String(type).toLowerCase();
+    return {
+        ...rest,
+        type: nullable ? [jsonType, 'null'] : jsonType,
+        ...(properties ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])) } : {}),
+        ...(items ? { items: toJsonSchema(items) } : {}),
+    };
+}
+
+function toMessages(request: GenerateRequest) {
+    const content = request.image
+        ? [
+            { type: 'text', text: request.prompt },
+            { type: 'image_url', image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` } },
+        ]
+        : request.prompt;
+    return [
+        ...(request.history ?? []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+        { role: 'user', content },
+    ];
+}
+
+/**
+ * Any provider with an OpenAI-compatible chat completions API, e.g. a local
+ * Ollama (`http://localhost:11434/v1`) or a hosted model.
+ */
+export function createOpenAiCompatibleGenerator(baseUrl: string, apiKey: string, model: string): RecipeGenerator {
+    const post = async (request: GenerateRequest, stream: boolean, signal?: AbortSignal) => {
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: toMessages(request),
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: request.schema, schema: toJsonSchema(RESPONSE_SCHEMAS[request.schema]) },
+                },
+                stream,
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`got status: ${response.status} ${response.statusText}. ${await response.text().catch(() => '')}`);
+        }
+        return response;
+    };
+
+    return {
+        async generate(request, signal) {
+            const data = await (await post(request, false, signal)).json();
+            return String(data.choices?.[0]?.message?.content ?? '').trim();
+        },
+        async *generateStream(request, signal) {
+            const response = await post(request, true, signal);
+            const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) return;
+                    buffer += value;
+                    // Server-sent events: one "data: {...}" line per chunk, ending with "data: [DONE]".
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+                    for (const line of lines) {
+                        const data = line.replace(/^data:\s*/, '').trim();
+                        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                        if (text) yield text;
+                    }
+                }
+            } finally {
+                reader.releaseLock();
+            }
+        },
+    };
+}
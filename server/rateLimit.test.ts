@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+    it('counts only recorded requests', () => {
+        const limiter = createRateLimiter(2, 60_000);
+
+        expect(limiter.check('a', 0).allowed).toBe(true);
+        expect(limiter.check('a', 0).allowed).toBe(true);
+        limiter.record('a', 0);
+        limiter.record('a', 1_000);
+
+        expect(limiter.check('a', 2_000)).toEqual({ allowed: false, retryAfterSeconds: 58 });
+        expect(limiter.check('b', 2_000).allowed).toBe(true);
+        expect(limiter.check('a', 60_001).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitResult {
+    allowed: boolean;
+    // Seconds until the next request would be allowed; 0 if it is.
+    retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+    /** Whether `key` may make another request; doesn't count it yet. */
+    check(key: string, now?: number): RateLimitResult;
+    record(key: string, now?: number): void;
+}
+
+/**
+ * Sliding window: at most `limit` requests per key within `windowMs`.
+ * Kept in memory, so limits reset when the server restarts.
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+    const requests = new Map<string, number[]>();
+    let lastCleanup = 0;
+
+    const cleanup = (now: number) => {
+        // Forget keys that have been quiet for a whole window, so the map doesn't grow forever.
+        for (const [key, times] of requests) {
+            if (times[times.length - 1] <= now - windowMs) requests.delete(key);
+        }
+        lastCleanup = now;
+    };
+
+    const recentRequests = (key: string, now: number) => {
+        if (now - lastCleanup > windowMs) cleanup(now);
+        const times = (requests.get(key) ?? []).filter(time => time > now - windowMs);
+        requests.set(key, times);
+        return times;
+    };
+
+    return {
+        check(key, now = Date.now()) {
+            const times = recentRequests(key, now);
+            if (times.length >= limit) {
+                return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((times[0] + windowMs - now) / 1000)) };
+            }
+            return { allowed: true, retryAfterSeconds: 0 };
+        },
+        record(key, now = Date.now()) {
+            recentRequests(key, now).push(now);
+        },
+    };
+}
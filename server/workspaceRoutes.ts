@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { normalizeRecipe } from '../ingredients';
+import { validateRecipe } from '../recipeValidation';
+import { toSharedRecipe, type GroupRecipe, type JoinResult, type WorkspaceSnapshot } from '../workspace';
+import type { Recipe } from '../types';
+import { HttpError, decodePathSegment, readJsonObject, sendJson } from './http';
+import type { StoredGroup, StoredMember, WorkspaceData, WorkspaceStore } from './workspaceStore';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_RECIPES_PER_GROUP = 500;
+// Without 0/O and 1/I, so codes can be read out loud and copied from a whiteboard.
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// --- Helper Functions ---
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function createJoinCode(data: WorkspaceData): string {
+    for (;;) {
+        const code = [...randomBytes(6)].map(byte => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join('');
+        if (!data.groups.some(g => g.joinCode === code)) return code;
+    }
+}
+
+function readName(value: unknown, label: string): string {
+    const name = typeof value === 'string' ? value.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+        throw new HttpError(400, `${label} fehlt oder ist zu lang.`);
+    }
+    return name;
+}
+
+function readRecipe(value: unknown): Recipe {
+    const errors = validateRecipe(value);
+    if (errors.length > 0) {
+        throw new HttpError(400, `Ungültiges Rezept: ${errors.join(' ')}`);
+    }
+    return toSharedRecipe(normalizeRecipe(value));
+}
+
+function findGroup(data: WorkspaceData, groupId: string): StoredGroup {
+    const group = data.groups.find(g => g.id === groupId);
+    if (!group) {
+        throw new HttpError(404, 'Diese Klasse gibt es nicht mehr.');
+    }
+    return group;
+}
+
+function authenticate(req: IncomingMessage, group: StoredGroup): StoredMember {
+    const token = String(req.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+    const member = token ? group.members.find(m => m.tokenHash === hashToken(token)) : undefined;
+    if (!member) {
+        throw new HttpError(401, 'Du bist kein Mitglied dieser Klasse. Bitte tritt ihr erneut bei.');
+    }
+    return member;
+}
+
+function findRecipe(group: StoredGroup, recipeId: string, member: StoredMember): GroupRecipe {
+    const recipe = group.recipes.find(r => r.id === recipeId);
+    if (!recipe || !canSee(recipe, member)) {
+        throw new HttpError(404, 'Das Rezept ist nicht mehr in der Klasse.');
+    }
+    return recipe;
+}
+
+function requireTrainer(member: StoredMember) {
+    if (member.role !== 'trainer') {
+        throw new HttpError(403, 'Das dürfen nur Ausbilderinnen und Ausbilder.');
+    }
+}
+
+// Apprentices see approved recipes and their own; trainers see everything.
+function canSee(recipe: GroupRecipe, member: StoredMember): boolean {
+    return member.role === 'trainer' || recipe.status === 'approved' || recipe.authorId === member.id;
+}
+
+function toSnapshot(group: StoredGroup, member: StoredMember): WorkspaceSnapshot {
+    return {
+        group: { id: group.id, name: group.name, ...(member.role === 'trainer' ? { joinCode: group.joinCode } : {}) },
+        members: group.members.map(({ id, name, role }) => ({ id, name, role })),
+        recipes: group.recipes.filter(r => canSee(r, member)),
+    };
+}
+
+function addMember(group: StoredGroup, name: string, role: StoredMember['role']): JoinResult {
+    const token = randomBytes(24).toString('base64url');
+    const member: StoredMember = { id: randomUUID(), name, role, tokenHash: hashToken(token), joinedAt: new Date().toISOString() };
+    group.members.push(member);
+    return { snapshot: toSnapshot(group, member), member: { id: member.id, name, role }, token };
+}
+
+// --- Routes ---
+/**
+ * Handles everything below `/api/groups`:
+ *
+ *     POST   /api/groups                              create a group (trainer)
+ *     POST   /api/groups/join                         join with a code
+ *     GET    /api/groups/:id                          group, members and visible recipes
+ *     POST   /api/groups/:id/recipes                  publish a recipe
+ *     PUT    /api/groups/:id/recipes/:recipe          update it (author, checks `baseRevision`)
+ *     PATCH  /api/groups/:id/recipes/:recipe          approve or pin (trainer)
+ *     DELETE /api/groups/:id/recipes/:recipe          remove (author or trainer)
+ *     POST   /api/groups/:id/recipes/:recipe/comments comment
+ */
+export function createWorkspaceRoutes(store: WorkspaceStore) {
+    return async function handleWorkspaceRequest(req: IncomingMessage, res: ServerResponse, pathname: string) {
+        const [groupId, collection, recipeId, sub, ...rest] = pathname
+            .replace(/^\/api\/groups\/?/, '')
+            .split('/')
+            .map(decodePathSegment);
+        const route = `${req.method} ${[groupId && (groupId === 'join' ? 'join' : ':id'), collection, recipeId && ':recipe', sub].filter(Boolean).join('/')}`;
+        if (rest.length > 0 || (collection && collection !== 'recipes') || (sub && sub !== 'comments')) {
+            throw new HttpError(404, 'Nicht gefunden.');
+        }
+        const body: Record<string, unknown> = req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH' ? await readJsonObject(req) : {};
+        const now = new Date().toISOString();
+
+        switch (route) {
+            case 'POST ': {
+                const groupName = readName(body.groupName, 'Der Name der Klasse');
+                const name = readName(body.name, 'Dein Name');
+                const result = await store.update(data => {
+                    const group: StoredGroup = { id: randomUUID(), name: groupName, joinCode: createJoinCode(data), createdAt: now, members: [], recipes: [] };
+                    data.groups.push(group);
+                    return addMember(group, name, 'trainer');
+                });
+                sendJson(res, 201, result);
+                return;
+            }
+            case 'POST join': {
+                const joinCode = String(body.joinCode ?? '').trim().toUpperCase();
+                const name = readName(body.name, 'Dein Name');
+                const result = await store.update(data => {
+                    const group = data.groups.find(g => g.joinCode === joinCode);
+                    if (!group) {
+                        throw new HttpError(404, 'Zu diesem Code gibt es keine Klasse.');
+                    }
+                    return addMember(group, name, 'apprentice');
+                });
+                sendJson(res, 201, result);
+                return;
+            }
+            case 'GET :id': {
+                const snapshot = await store.read(data => {
+                    const group = findGroup(data, groupId);
+                    return toSnapshot(group, authenticate(req, group));
+                });
+                sendJson(res, 200, snapshot);
+                return;
+            }
+            case 'POST :id/recipes': {
+                const recipe = readRecipe(body.recipe);
+                const published = await store.update(data => {
+                    const group = findGroup(data, groupId);
+                    const member = authenticate(req, group);
+                    if (group.recipes.length >= MAX_RECIPES_PER_GROUP) {
+                        throw new HttpError(409, 'Die Klasse hat schon zu viele Rezepte. Bitte räumt zuerst auf.');
+                    }
+                    const groupRecipe: GroupRecipe = {
+                        id: randomUUID(),
+                        recipe,
+                        authorId: member.id,
+                        authorName: member.name,
+                        // Trainers don't have to approve their own recipes.
+                        status: member.role === 'trainer' ? 'approved' : 'pending',
+                        pinned: false,
+                        comments: [],
+                        revision: 1,
+                        publishedAt: now,
+                        updatedAt: now,
+                    };
+                    group.recipes.push(groupRecipe);
+                    return groupRecipe;
+                });
+                sendJson(res, 201, published);
+                return;
+            }
+            case 'PUT :id/recipes/:recipe': {
+                const recipe = readRecipe(body.recipe);
+                const updated = await store.update(data => {
+                    const group = findGroup(data, groupId);
+                    const member = authenticate(req, group);
+                    const groupRecipe = findRecipe(group, recipeId, member);
+                    if (groupRecipe.authorId !== member.id) {
+                        throw new HttpError(403, 'Nur wer das Rezept geteilt hat, kann es ändern.');
+                    }
+                    if (body.baseRevision !== groupRecipe.revision) {
+                        throw new HttpError(409, 'Das Rezept wurde in der Klasse inzwischen geändert.', {}, { current: groupRecipe });
+                    }
+                    Object.assign(groupRecipe, {
+                        recipe,
+                        revision: groupRecipe.revision + 1,
+                        updatedAt: now,
+                        // An approval was for the old content.
+                        status: member.role === 'trainer' ? 'approved' : 'pending',
+                    });
+                    return groupRecipe;
+                });
+                sendJson(res, 200, updated);
+                return;
+            }
+            case 'PATCH :id/recipes/:recipe': {
+                const { status, pinned } = body;
+                if ((status !== undefined && status !== 'pending' && status !== 'approved') || (pinned !== undefined && typeof pinned !== 'boolean')) {
+                    throw new HttpError(400, 'Ungültige Änderung.');
+                }
+                const reviewed = await store.update(data => {
+                    const group = findGroup(data, groupId);
+                    const member = authenticate(req, group);
+                    requireTrainer(member);
+                    const groupRecipe = findRecipe(group, recipeId, member);
+                    if (status === 'pending' || status === 'approved') groupRecipe.status = status;
+                    if (typeof pinned === 'boolean') groupRecipe.pinned = pinned;
+                    return groupRecipe;
+                });
+                sendJson(res, 200, reviewed);
+                return;
+            }
+            case 'DELETE :id/recipes/:recipe': {
+                await store.update(data => {
+                    const group = findGroup(data, groupId);
+                    const member = authenticate(req, group);
+                    const groupRecipe = findRecipe(group, recipeId, member);
+                    if (member.role !== 'trainer' && groupRecipe.authorId !== member.id) {
+                        throw new HttpError(403, 'Nur wer das Rezept geteilt hat, kann es entfernen.');
+                    }
+                    group.recipes = group.recipes.filter(r => r !== groupRecipe);
+                });
+                res.writeHead(204);
+                res.end();
+                return;
+            }
+            case 'POST :id/recipes/:recipe/comments': {
+                const text = typeof body.text === 'string' ? body.text.trim() : '';
+                if (!text || text.length > MAX_COMMENT_LENGTH) {
+                    throw new HttpError(400, 'Der Kommentar fehlt oder ist zu lang.');
+                }
+                const commented = await store.update(data => {
+                    const group = findGroup(data, groupId);
+                    const member = authenticate(req, group);
+                    const groupRecipe = findRecipe(group, recipeId, member);
+                    groupRecipe.comments.push({ id: randomUUID(), authorId: member.id, authorName: member.name, text, createdAt: now });
+                    return groupRecipe;
+                });
+                sendJson(res, 201, commented);
+                return;
+            }
+            default:
+                throw new HttpError(405, 'Methode nicht erlaubt.');
+        }
+    };
+}
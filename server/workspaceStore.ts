@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { GroupRecipe, WorkspaceMember } from '../workspace';
+
+export interface StoredMember extends WorkspaceMember {
+    // Only a hash is stored, so a leaked data file doesn't let anyone act as a member.
+    tokenHash: string;
+    joinedAt: string;
+}
+
+export interface StoredGroup {
+    id: string;
+    name: string;
+    joinCode: string;
+    createdAt: string;
+    members: StoredMember[];
+    recipes: GroupRecipe[];
+}
+
+export interface WorkspaceData {
+    version: number;
+    groups: StoredGroup[];
+}
+
+export interface WorkspaceStore {
+    read<T>(reader: (data: WorkspaceData) => T): Promise<T>;
+    /**
+     * Runs one change at a time and resolves once it is on disk. `change` must
+     * throw before it modifies anything, otherwise the memory copy gets ahead of the file.
+     */
+    update<T>(change: (data: WorkspaceData) => T): Promise<T>;
+}
+
+const STORE_VERSION = 1;
+
+/** Keeps all groups in memory and writes them to one JSON file, which is plenty for a few classes. */
+export function createFileStore(filePath: string): WorkspaceStore {
+    let loaded: Promise<WorkspaceData> | null = null;
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const load = () => {
+        loaded ??= readFile(filePath, 'utf-8').then(
+            text => JSON.parse(text) as WorkspaceData,
+            (error: NodeJS.ErrnoException) => {
+                if (error.code === 'ENOENT') return { version: STORE_VERSION, groups: [] };
+                throw error;
+            },
+        );
+        return loaded;
+    };
+
+    const persist = async (data: WorkspaceData) => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(data));
+        // Renaming is atomic, so a crash never leaves a half-written file behind.
+        await rename(tempPath, filePath);
+    };
+
+    return {
+        async read(reader) {
+            return reader(await load());
+        },
+        update(change) {
+            const run = queue.then(async () => {
+                const data = await load();
+                const result = change(data);
+                await persist(data);
+                return result;
+            });
+            queue = run.catch(() => undefined);
+            return run;
+        },
+    };
+}
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { formatAmount, toBaseUnit } from './ingredients';
+import type { Recipe } from './types';
+
+export interface ShoppingItem {
+    id: string;
+    name: string;
+    amount: number | null;
+    unit: string;
+    section: string;
+    checked: boolean;
+    recipes: string[];
+}
+
+export interface ShoppingList {
+    createdAt: string;
+    items: ShoppingItem[];
+}
+
+const SHOPPING_LIST_KEY = 'shoppingList';
+
+// Sections in the order you usually walk through a German supermarket.
+// The longest matching keyword wins, so "Paprikapulver" isn't filed under "Paprika".
+export const SUPERMARKET_SECTIONS: { name: string; keywords: string[] }[] = [
+    { name: 'Obst & Gemüse', keywords: ['apfel', 'äpfel', 'banane', 'zitrone', 'tomate', 'gurke', 'paprika', 'zwiebel', 'knoblauch', 'kartoffel', 'möhre', 'karotte', 'lauch', 'porree', 'salat', 'spinat', 'brokkoli', 'zucchini', 'pilz', 'champignon', 'kräuter', 'petersilie', 'schnittlauch', 'basilikum', 'ingwer', 'beere', 'frucht', 'früchte', 'kohl', 'sellerie', 'aubergine', 'avocado', 'mais'] },
+    { name: 'Brot & Backwaren', keywords: ['brot', 'brötchen', 'toast', 'wrap', 'tortilla', 'baguette'] },
+    { name: 'Fleisch & Fisch', keywords: ['hähnchen', 'huhn', 'pute', 'rind', 'schwein', 'hack', 'speck', 'schinken', 'wurst', 'lachs', 'fisch', 'thunfisch', 'garnele'] },
+    { name: 'Kühlregal', keywords: ['milch', 'sahne', 'joghurt', 'quark', 'butter', 'käse', 'mozzarella', 'feta', 'parmesan', 'ei', 'eier', 'schmand', 'frischkäse', 'tofu'] },
+    { name: 'Tiefkühl', keywords: ['tk-', 'tiefkühl', 'erbsen'] },
+    { name: 'Nudeln, Reis & Trockenware', keywords: ['nudel', 'spaghetti', 'pasta', 'penne', 'reis', 'mehl', 'zucker', 'grieß', 'haferflocken', 'linsen', 'couscous', 'bulgur', 'backpulver', 'hefe'] },
+    { name: 'Konserven & Saucen', keywords: ['dose', 'passierte', 'tomatenmark', 'brühe', 'bohnen', 'kichererbsen', 'kokosmilch', 'apfelmus', 'ketchup', 'senf', 'sojasauce', 'pesto'] },
+    { name: 'Gewürze & Öle', keywords: ['salz', 'pfeffer', 'öl', 'essig', 'paprikapulver', 'curry', 'zimt', 'oregano', 'gewürz', 'chili', 'muskat', 'kreuzkümmel'] },
+    { name: 'Getränke', keywords: ['wasser', 'saft', 'wein', 'bier'] },
+];
+
+export const OTHER_SECTION = 'Sonstiges';
+
+export function getSectionForIngredient(name: string): string {
+    const lower = name.toLowerCase();
+    const words = lower.split(/[\s,()-]+/);
+    let best = { section: OTHER_SECTION, length: 0 };
+    SUPERMARKET_SECTIONS.forEach(section => {
+        section.keywords.forEach(keyword => {
+            // Very short keywords like "ei" must match a whole word, not "Reis".
+            const matches = keyword.length <= 3 ? words.includes(keyword) : lower.includes(keyword);
+            if (matches && keyword.length > best.length) {
+                best = { section: section.name, length: keyword.length };
+            }
+        });
+    });
+    return best.section;
+}
+
+function itemKey(name: string, unit: string, hasAmount: boolean): string {
+    return `${name.trim().toLowerCase()}|${unit}|${hasAmount ? 'n' : '-'}`;
+}
+
+/**
+ * Adds the ingredients of the given recipes to a list. Ingredients with the same
+ * name and unit are summed; a recipe listed twice (e.g. twice in a meal plan)
+ * counts twice. Adding more of an item that was already ticked off unticks it.
+ */
+export function addRecipesToList(list: ShoppingList, recipes: Recipe[]): ShoppingList {
+    const items = list.items.map(item => ({ ...item, recipes: [...item.recipes] }));
+    const byKey = new Map(items.map(item => [itemKey(item.name, item.unit, item.amount !== null), item]));
+
+    recipes.forEach(recipe => {
+        recipe.ingredients.forEach(ingredient => {
+            if (!ingredient.name) return;
+            // Amounts in kg and l are summed in g and ml and converted back for display.
+            const { amount, unit } = toBaseUnit(ingredient);
+            const key = itemKey(ingredient.name, unit, amount !== null);
+            const existing = byKey.get(key);
+            if (existing) {
+                if (existing.amount !== null && amount !== null) {
+                    existing.amount += amount;
+                }
+                existing.checked = false;
+                if (!existing.recipes.includes(recipe.recipeName)) {
+                    existing.recipes.push(recipe.recipeName);
+                }
+                return;
+            }
+            const item: ShoppingItem = {
+                id: `${Date.now().toString(36)}-${items.length}`,
+                name: ingredient.name.trim(),
+                amount,
+                unit,
+                section: getSectionForIngredient(ingredient.name),
+                checked: false,
+                recipes: [recipe.recipeName],
+            };
+            items.push(item);
+            byKey.set(key, item);
+        });
+    });
+
+    return { createdAt: list.createdAt, items };
+}
+
+export function createShoppingList(recipes: Recipe[]): ShoppingList {
+    return addRecipesToList({ createdAt: new Date().toISOString(), items: [] }, recipes);
+}
+
+export function groupBySection(list: ShoppingList): { section: string; items: ShoppingItem[] }[] {
+    const order = [...SUPERMARKET_SECTIONS.map(s => s.name), OTHER_SECTION];
+    return order
+        .map(section => ({
+            section,
+            items: list.items
+                .filter(item => item.section === section)
+                .sort((a, b) => a.name.localeCompare(b.name, 'de')),
+        }))
+        .filter(group => group.items.length > 0);
+}
+
+export function formatShoppingItem(item: ShoppingItem): string {
+    if (item.amount === null) {
+        return item.name;
+    }
+    let { amount, unit } = item;
+    if ((unit === 'g' || unit === 'ml') && amount >= 1000) {
+        amount = amount / 1000;
+        unit = unit === 'g' ? 'kg' : 'l';
+    }
+    return [formatAmount(amount, unit), unit, item.name].filter(part => part).join(' ');
+}
+
+export function exportAsText(list: ShoppingList): string {
+    const lines = ['Einkaufsliste', ''];
+    groupBySection(list).forEach(({ section, items }) => {
+        lines.push(`${section}:`);
+        items.forEach(item => lines.push(`[${item.checked ? 'x' : ' '}] ${formatShoppingItem(item)}`));
+        lines.push('');
+    });
+    return lines.join('\n').trim() + '\n';
+}
+
+export function exportAsMarkdown(list: ShoppingList): string {
+    const lines = ['# Einkaufsliste', ''];
+    groupBySection(list).forEach(({ section, items }) => {
+        lines.push(`## ${section}`, '');
+        items.forEach(item => lines.push(`- [${item.checked ? 'x' : ' '}] ${formatShoppingItem(item)}`));
+        lines.push('');
+    });
+    return lines.join('\n').trim() + '\n';
+}
+
+// --- LocalStorage Functions ---
+export function getShoppingList(): ShoppingList | null {
+    const listJSON = localStorage.getItem(SHOPPING_LIST_KEY);
+    return listJSON ? JSON.parse(listJSON) : null;
+}
+
+export function saveShoppingList(list: ShoppingList | null) {
+    if (list) {
+        localStorage.setItem(SHOPPING_LIST_KEY, JSON.stringify(list));
+    } else {
+        localStorage.removeItem(SHOPPING_LIST_KEY);
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+export interface Ingredient {
+    amount: number | null;
+    unit: string;
+    name: string;
+}
+
+/** Per serving; kcal and grams. */
+export interface Nutrition {
+    kcal: number;
+    protein: number;
+    fat: number;
+    carbohydrates: number;
+}
+
+export interface Recipe {
+    // Set once the recipe is saved; names can change and repeat, ids don't.
+    id?: string;
+    recipeName: string;
+    description: string;
+    servings: number;
+    totalTimeMinutes?: number;
+    difficulty?: string;
+    ingredients: Ingredient[];
+    instructions: string[];
+    imageUrl?: string;
+    estimatedCostPerServing?: number;
+    tags?: string[];
+    nutrition?: Nutrition;
+    // Ids from `EU_ALLERGENS`, as reported by Gemini.
+    allergens?: string[];
+    // ISO 8601 timestamps.
+    createdAt?: string;
+    lastCookedAt?: string;
+}
@@ -1,13 +1,21 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    const generator = env.RECIPE_GENERATOR || 'proxy';
+    // In dev and preview the app talks to `npm run server` through this proxy.
+    const apiProxy = { '/api': `http://localhost:${env.PORT || 8787}` };
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The server reads its environment at runtime. The browser bundle only gets
+      // the key when it talks to Gemini directly (RECIPE_GENERATOR=gemini).
+      define: isSsrBuild ? {} : {
+        'process.env.RECIPE_GENERATOR': JSON.stringify(generator),
+        'process.env.API_KEY': JSON.stringify(generator === 'gemini' ? env.GEMINI_API_KEY : ''),
       },
+      build: isSsrBuild ? { copyPublicDir: false } : {},
+      server: { proxy: apiProxy },
+      preview: { proxy: apiProxy },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { applyGroupRecipe, recipeFingerprint, toSharedRecipe } from './workspace';
+import type { Recipe } from './types';
+
+const local: Recipe = {
+    id: 'lokal-1',
+    recipeName: 'Nudeln mit Tomatensoße',
+    description: 'Schnell und günstig',
+    servings: 2,
+    ingredients: [{ amount: 250, unit: 'g', name: 'Nudeln' }],
+    instructions: ['Nudeln kochen.'],
+    nutrition: { kcal: 550, protein: 18, fat: 6, carbohydrates: 100 },
+    imageUrl: 'blob:test/1',
+    createdAt: '2026-01-01T12:00:00.000Z',
+};
+
+describe('shared recipes', () => {
+    it('share neither the local id, the image nor the dates', () => {
+        expect(JSON.parse(JSON.stringify(toSharedRecipe(local)))).toEqual({
+            recipeName: 'Nudeln mit Tomatensoße',
+            description: 'Schnell und günstig',
+            servings: 2,
+            ingredients: [{ amount: 250, unit: 'g', name: 'Nudeln' }],
+            instructions: ['Nudeln kochen.'],
+            nutrition: { kcal: 550, protein: 18, fat: 6, carbohydrates: 100 },
+        });
+    });
+
+    it('take fields the group removed away from the local recipe too', () => {
+        // E.g. the author changed the ingredients, which drops the nutrition values.
+        const { nutrition, ...groupVersion } = { ...toSharedRecipe(local), servings: 4 };
+
+        const pulled = applyGroupRecipe(local, groupVersion);
+
+        expect(pulled).toMatchObject({ id: 'lokal-1', imageUrl: 'blob:test/1', createdAt: local.createdAt, servings: 4 });
+        expect(pulled.nutrition).toBeUndefined();
+        expect(recipeFingerprint(pulled)).toBe(recipeFingerprint(groupVersion));
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Recipe } from './types';
+
+// A "Klasse": a trainer creates the group, apprentices join with its code and
+// publish recipes from their own collection. Used by the browser and `server/`.
+
+export type WorkspaceRole = 'trainer' | 'apprentice';
+export type GroupRecipeStatus = 'pending' | 'approved';
+
+export interface WorkspaceMember {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+}
+
+export interface WorkspaceGroup {
+    id: string;
+    name: string;
+    // Only sent to trainers.
+    joinCode?: string;
+}
+
+export interface GroupComment {
+    id: string;
+    authorId: string;
+    authorName: string;
+    text: string;
+    createdAt: string;
+}
+
+export interface GroupRecipe {
+    id: string;
+    recipe: SharedRecipe;
+    authorId: string;
+    authorName: string;
+    status: GroupRecipeStatus;
+    pinned: boolean;
+    comments: GroupComment[];
+    // Counts changes of the recipe itself; approving, pinning and comments don't conflict with edits.
+    revision: number;
+    publishedAt: string;
+    updatedAt: string;
+}
+
+export interface WorkspaceSnapshot {
+    group: WorkspaceGroup;
+    members: WorkspaceMember[];
+    recipes: GroupRecipe[];
+}
+
+export interface JoinResult {
+    snapshot: WorkspaceSnapshot;
+    member: WorkspaceMember;
+    token: string;
+}
+
+/** What this browser remembers about its membership. */
+export interface WorkspaceSession {
+    groupId: string;
+    groupName: string;
+    member: WorkspaceMember;
+    token: string;
+}
+
+/** Connects a recipe of the local collection with its counterpart in the group. */
+export interface RecipeLink {
+    recipeId: string;
+    // Null until a recipe shared while offline reached the server.
+    groupRecipeId: string | null;
+    // Own recipes are pushed to the group; copies are updated from it.
+    own: boolean;
+    // State at the last sync, to tell which side changed since.
+    revision: number;
+    fingerprint: string;
+}
+
+export type SyncAction =
+    | { type: 'publish'; link: RecipeLink; recipe: Recipe }
+    | { type: 'push'; link: RecipeLink; recipe: Recipe; groupRecipe: GroupRecipe }
+    | { type: 'pull'; link: RecipeLink; recipe: Recipe; groupRecipe: GroupRecipe }
+    | { type: 'conflict'; link: RecipeLink; recipe: Recipe; groupRecipe: GroupRecipe | null }
+    | { type: 'forget'; link: RecipeLink };
+
+export type ConflictChoice = 'keepMine' | 'takeGroup' | 'keepBoth';
+
+export class WorkspaceError extends Error {
+    constructor(public status: number, message: string, public current?: GroupRecipe) {
+        super(message);
+        this.name = 'WorkspaceError';
+    }
+}
+
+const WORKSPACE_SESSION_KEY = 'workspaceSession';
+const WORKSPACE_LINKS_KEY = 'workspaceLinks';
+
+const SHARED_FIELDS = [
+    'recipeName', 'description', 'servings', 'totalTimeMinutes', 'difficulty', 'ingredients',
+    'instructions', 'estimatedCostPerServing', 'tags', 'nutrition', 'allergens',
+] as const;
+
+/** The part of a recipe that is shared: no local id, dates or images, which would bloat the group. */
+export type SharedRecipe = Pick<Recipe, typeof SHARED_FIELDS[number]>;
+
+export function toSharedRecipe(recipe: Recipe): SharedRecipe {
+    const {
+        recipeName, description, servings, totalTimeMinutes, difficulty, ingredients,
+        instructions, estimatedCostPerServing, tags, nutrition, allergens,
+    } = recipe;
+    return {
+        recipeName, description, servings, totalTimeMinutes, difficulty, ingredients,
+        instructions, estimatedCostPerServing, tags, nutrition, allergens,
+    };
+}
+
+/**
+ * The local recipe with all shared fields taken from the group version, so fields
+ * the group removed are gone too. Id, image and dates stay.
+ */
+export function applyGroupRecipe(recipe: Recipe, shared: SharedRecipe): Recipe {
+    const {
+        recipeName, description, servings, totalTimeMinutes, difficulty, ingredients,
+        instructions, estimatedCostPerServing, tags, nutrition, allergens, ...localFields
+    } = recipe;
+    return { ...localFields, ...toSharedRecipe(shared) };
+}
+
+/** A short hash of the shared fields, to notice local edits since the last sync. */
+export function recipeFingerprint(recipe: Recipe): string {
+    const text = JSON.stringify(SHARED_FIELDS.map(field => recipe[field] ?? null));
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return `${(hash >>> 0).toString(36)}-${text.length.toString(36)}`;
+}
+
+export function createLink(recipe: Recipe, own: boolean, groupRecipe?: GroupRecipe): RecipeLink {
+    return {
+        recipeId: recipe.id!,
+        groupRecipeId: groupRecipe?.id ?? null,
+        own,
+        revision: groupRecipe?.revision ?? 0,
+        fingerprint: groupRecipe ? recipeFingerprint(recipe) : '',
+    };
+}
+
+/**
+ * Compares the local collection with the group. Changes on one side are
+ * passed on; if both sides changed since the last sync the user has to decide.
+ */
+export function planSync(links: RecipeLink[], recipes: Recipe[], groupRecipes: GroupRecipe[]): SyncAction[] {
+    return links.map((link): SyncAction | null => {
+        const recipe = recipes.find(r => r.id === link.recipeId);
+        if (!recipe) {
+            // Deleted locally; what was shared stays in the group.
+            return { type: 'forget', link };
+        }
+        if (link.groupRecipeId === null) {
+            return { type: 'publish', link, recipe };
+        }
+        const groupRecipe = groupRecipes.find(r => r.id === link.groupRecipeId) ?? null;
+        const localChanged = recipeFingerprint(recipe) !== link.fingerprint;
+        if (!groupRecipe) {
+            // Removed from the group: only ask if own work would get lost.
+            return link.own && localChanged ? { type: 'conflict', link, recipe, groupRecipe } : { type: 'forget', link };
+        }
+        const groupChanged = groupRecipe.revision !== link.revision;
+        if (localChanged && groupChanged) {
+            return { type: 'conflict', link, recipe, groupRecipe };
+        }
+        if (localChanged) {
+            // Edits of a copy stay private until the group version changes.
+            return link.own ? { type: 'push', link, recipe, groupRecipe } : null;
+        }
+        return groupChanged ? { type: 'pull', link, recipe, groupRecipe } : null;
+    }).filter((action): action is SyncAction => action !== null);
+}
+
+/** Pinned first, then recipes waiting for the trainer, then the newest. */
+export function sortGroupRecipes(recipes: GroupRecipe[]): GroupRecipe[] {
+    return [...recipes].sort((a, b) =>
+        Number(b.pinned) - Number(a.pinned)
+        || Number(b.status === 'pending') - Number(a.status === 'pending')
+        || b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// --- API Client ---
+export interface WorkspaceClient {
+    createGroup(groupName: string, trainerName: string): Promise<JoinResult>;
+    joinGroup(joinCode: string, name: string): Promise<JoinResult>;
+    getSnapshot(groupId: string): Promise<WorkspaceSnapshot>;
+    publishRecipe(groupId: string, recipe: Recipe): Promise<GroupRecipe>;
+    /** Fails with a 409 `WorkspaceError` if the group version is newer than `baseRevision`. */
+    updateRecipe(groupId: string, groupRecipeId: string, recipe: Recipe, baseRevision: number): Promise<GroupRecipe>;
+    reviewRecipe(groupId: string, groupRecipeId: string, changes: { status?: GroupRecipeStatus; pinned?: boolean }): Promise<GroupRecipe>;
+    addComment(groupId: string, groupRecipeId: string, text: string): Promise<GroupRecipe>;
+    removeRecipe(groupId: string, groupRecipeId: string): Promise<void>;
+}
+
+export function createWorkspaceClient(token?: string, clientId?: string, baseUrl = '/api'): WorkspaceClient {
+    const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                ...(clientId ? { 'X-Client-Id': clientId } : {}),
+            },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+        if (response.status === 204) {
+            return undefined as T;
+        }
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new WorkspaceError(response.status, data.error ?? `Serverfehler (${response.status}).`, data.current);
+        }
+        return data as T;
+    };
+    const recipePath = (groupId: string, groupRecipeId: string) =>
+        `/groups/${encodeURIComponent(groupId)}/recipes/${encodeURIComponent(groupRecipeId)}`;
+
+    return {
+        createGroup: (groupName, trainerName) => request('POST', '/groups', { groupName, name: trainerName }),
+        joinGroup: (joinCode, name) => request('POST', '/groups/join', { joinCode, name }),
+        getSnapshot: groupId => request('GET', `/groups/${encodeURIComponent(groupId)}`),
+        publishRecipe: (groupId, recipe) => request('POST', `/groups/${encodeURIComponent(groupId)}/recipes`, { recipe: toSharedRecipe(recipe) }),
+        updateRecipe: (groupId, groupRecipeId, recipe, baseRevision) =>
+            request('PUT', recipePath(groupId, groupRecipeId), { recipe: toSharedRecipe(recipe), baseRevision }),
+        reviewRecipe: (groupId, groupRecipeId, changes) => request('PATCH', recipePath(groupId, groupRecipeId), changes),
+        addComment: (groupId, groupRecipeId, text) => request('POST', `${recipePath(groupId, groupRecipeId)}/comments`, { text }),
+        removeRecipe: (groupId, groupRecipeId) => request('DELETE', recipePath(groupId, groupRecipeId)),
+    };
+}
+
+// --- LocalStorage Functions ---
+export function getWorkspaceSession(): WorkspaceSession | null {
+    const sessionJSON = localStorage.getItem(WORKSPACE_SESSION_KEY);
+    return sessionJSON ? JSON.parse(sessionJSON) : null;
+}
+
+export function saveWorkspaceSession(session: WorkspaceSession | null) {
+    if (session) {
+        localStorage.setItem(WORKSPACE_SESSION_KEY, JSON.stringify(session));
+    } else {
+        localStorage.removeItem(WORKSPACE_SESSION_KEY);
+    }
+}
+
+export function getRecipeLinks(): RecipeLink[] {
+    const linksJSON = localStorage.getItem(WORKSPACE_LINKS_KEY);
+    return linksJSON ? JSON.parse(linksJSON) : [];
+}
+
+export function saveRecipeLinks(links: RecipeLink[]) {
+    localStorage.setItem(WORKSPACE_LINKS_KEY, JSON.stringify(links));
+}